@@ -0,0 +1,293 @@
+/**
+ * Vite dev-server plugin serving a mock of the backend API
+ * Lets the frontend run without the .NET backend and MongoDB: the SSE stream, the send
+ * endpoints of SseController and the demo endpoints of DemoController are answered from
+ * an in-memory MockSseService.
+ *
+ * Usage:
+ *   npm run dev:mock
+ */
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { MockSseService, createPayload } from './mockSseService';
+import type { MockSseServiceOptions } from './mockSseService';
+
+/**
+ * Mock backend options
+ */
+export interface MockSseBackendOptions extends MockSseServiceOptions {
+  /** Accepted API keys (default: the keys in backend/appsettings.json) */
+  apiKeys?: string[];
+}
+
+/**
+ * A request to a mock endpoint
+ */
+interface MockRequest {
+  method: string;
+  segments: string[];
+  query: URLSearchParams;
+  req: IncomingMessage;
+  res: ServerResponse;
+}
+
+/**
+ * Creates the mock backend plugin
+ * @param options Mock backend options
+ */
+export function mockSseBackend(options: MockSseBackendOptions = {}): Plugin {
+  const apiKeys = options.apiKeys ?? ['demo-api-key-12345', 'test-api-key-67890'];
+
+  return {
+    name: 'mock-sse-backend',
+    apply: 'serve',
+
+    configureServer(server) {
+      const service = new MockSseService(options);
+      server.httpServer?.on('close', () => service.dispose());
+      server.config.logger.info('  Mock SSE backend serving /api/sse and /api/demo');
+
+      server.middlewares.use('/api', (req, res, next) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const request: MockRequest = {
+          method: req.method ?? 'GET',
+          segments: url.pathname.split('/').filter(Boolean),
+          query: url.searchParams,
+          req,
+          res,
+        };
+
+        if (request.segments[0] !== 'sse' && request.segments[0] !== 'demo') {
+          next();
+          return;
+        }
+
+        if (!isAuthorized(request, apiKeys)) {
+          res.setHeader('WWW-Authenticate', 'ApiKey realm="SSE API", charset="UTF-8"');
+          sendText(res, 401, 'Unauthorized. Please provide a valid API key.');
+          return;
+        }
+
+        const handle = request.segments[0] === 'sse' ? handleSseRequest : handleDemoRequest;
+        handle(service, request).catch((error: unknown) => {
+          server.config.logger.error(`Mock SSE backend failed on ${req.method} ${req.url}: ${error}`);
+          if (!res.headersSent) {
+            sendText(res, 500, 'Internal server error');
+          }
+        });
+      });
+    },
+  };
+}
+
+/**
+ * Handles the /api/sse endpoints
+ */
+async function handleSseRequest(service: MockSseService, request: MockRequest): Promise<void> {
+  const { method, segments, query, req, res } = request;
+  const [, action, clientId] = segments;
+
+  if (segments.length > 3) {
+    sendText(res, 404, 'Not found');
+    return;
+  }
+
+  if (method === 'GET' && action === 'connect' && !clientId) {
+    const lastEventIdHeader = req.headers['last-event-id'];
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.flushHeaders();
+
+    const disconnect = service.connect({
+      clientId: query.get('clientId') || randomUUID(),
+      filter: query.get('filter'),
+      checkpoint: parseCheckpoint(query.get('checkpoint')),
+      lastEventId: query.get('lastEventId') || (Array.isArray(lastEventIdHeader) ? lastEventIdHeader[0] : lastEventIdHeader),
+      write: (chunk) => res.write(chunk),
+    });
+    req.on('close', disconnect);
+    return;
+  }
+
+  if (method !== 'POST') {
+    sendText(res, 404, 'Not found');
+    return;
+  }
+
+  const body = await readJsonBody(req);
+  const send = (eventType: string, data: string) => clientId
+    ? service.sendEventToClient(clientId, eventType, data)
+    : service.sendEventToAll(eventType, data);
+  const target = clientId ? `client ${clientId}` : null;
+
+  switch (action) {
+    case 'broadcast':
+    case 'send': {
+      // broadcast sends to everyone, send/{clientId} to one client
+      if ((action === 'send') !== Boolean(clientId)) {
+        break;
+      }
+      if (typeof body.data !== 'string' || body.data === '') {
+        sendText(res, 400, 'Data is required');
+        return;
+      }
+
+      send(typeof body.eventType === 'string' && body.eventType ? body.eventType : 'message', body.data);
+      sendJson(res, { message: target ? `Event sent to ${target} successfully` : 'Event broadcasted successfully' });
+      return;
+    }
+
+    case 'notification': {
+      if (typeof body.message !== 'string' || body.message === '') {
+        sendText(res, 400, 'Message is required');
+        return;
+      }
+
+      send('notification', JSON.stringify(createPayload('notification', {
+        message: body.message,
+        severity: body.severity ?? 'info',
+      })));
+      sendJson(res, { message: target ? `Notification sent to ${target} successfully` : 'Notification sent successfully' });
+      return;
+    }
+
+    case 'data-update': {
+      if (typeof body.entityId !== 'string' || body.entityId === '' || typeof body.entityType !== 'string' || body.entityType === '') {
+        sendText(res, 400, 'EntityId and EntityType are required');
+        return;
+      }
+
+      send('dataUpdate', JSON.stringify(createPayload('dataUpdate', {
+        entityId: body.entityId,
+        entityType: body.entityType,
+        changes: body.changes ?? {},
+      })));
+      sendJson(res, { message: target ? `Data update sent to ${target} successfully` : 'Data update sent successfully' });
+      return;
+    }
+
+    case 'alert': {
+      if (typeof body.message !== 'string' || body.message === '') {
+        sendText(res, 400, 'Message is required');
+        return;
+      }
+
+      send('alert', JSON.stringify(createPayload('alert', {
+        message: body.message,
+        severity: body.severity ?? 'high',
+        category: body.category ?? 'system',
+      })));
+      sendJson(res, { message: target ? `Alert sent to ${target} successfully` : 'Alert sent successfully' });
+      return;
+    }
+  }
+
+  sendText(res, 404, 'Not found');
+}
+
+/**
+ * Handles the /api/demo endpoints
+ */
+async function handleDemoRequest(service: MockSseService, request: MockRequest): Promise<void> {
+  const { method, segments, req, res } = request;
+  const action = segments.length === 2 ? segments[1] : null;
+
+  if (method === 'GET' && action === 'status') {
+    const isRunning = service.isDemoRunning();
+    sendJson(res, { isRunning, message: isRunning ? 'Demo is running' : 'Demo is not running' });
+    return;
+  }
+
+  if (method === 'POST' && action === 'start') {
+    const body = await readJsonBody(req);
+    const intervalSeconds = typeof body.intervalSeconds === 'number' ? body.intervalSeconds : 5;
+
+    if (service.isDemoRunning()) {
+      sendText(res, 400, 'Demo is already running. Stop it first.');
+      return;
+    }
+    if (!Number.isInteger(intervalSeconds) || intervalSeconds < 1 || intervalSeconds > 60) {
+      sendText(res, 400, 'Interval must be between 1 and 60 seconds.');
+      return;
+    }
+
+    service.startDemo(intervalSeconds);
+    sendJson(res, {
+      message: 'Demo started successfully',
+      intervalSeconds,
+      info: 'The demo will cycle through notification, alert, dataUpdate, and heartbeat events.',
+    });
+    return;
+  }
+
+  if (method === 'POST' && action === 'stop') {
+    if (!service.isDemoRunning()) {
+      sendText(res, 400, 'Demo is not running.');
+      return;
+    }
+
+    service.stopDemo();
+    sendJson(res, { message: 'Demo stopped successfully' });
+    return;
+  }
+
+  sendText(res, 404, 'Not found');
+}
+
+/**
+ * Checks the API key from the X-API-Key header or the apikey query parameter
+ */
+function isAuthorized(request: MockRequest, apiKeys: string[]): boolean {
+  const header = request.req.headers['x-api-key'];
+  const apiKey = (Array.isArray(header) ? header[0] : header) ?? request.query.get('apikey');
+  return apiKey !== null && apiKeys.includes(apiKey);
+}
+
+/**
+ * Parses the checkpoint query parameter
+ */
+function parseCheckpoint(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) {
+    return null;
+  }
+
+  return Number(value);
+}
+
+/**
+ * Reads a JSON request body; a missing or invalid body reads as an empty object
+ */
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    return body !== null && typeof body === 'object' ? body as Record<string, unknown> : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Sends a JSON response
+ */
+function sendJson(res: ServerResponse, body: unknown): void {
+  res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Sends a plain text response, like the backend's BadRequest and Unauthorized results
+ */
+function sendText(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(message);
+}
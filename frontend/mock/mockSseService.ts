@@ -0,0 +1,303 @@
+/**
+ * In-memory stand-in for the backend SSE service
+ * Mirrors backend/Services/SseService.cs and the MongoDB outbox: every event gets the next
+ * sequence number, is kept in an event log for checkpoint replay, and is delivered to the
+ * connected clients whose filter it matches.
+ */
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Mock service options
+ */
+export interface MockSseServiceOptions {
+  /** Interval between heartbeats in milliseconds (default: 30000, like the backend) */
+  heartbeatInterval?: number;
+
+  /** Number of events kept for replay (default: 1000) */
+  maxStoredEvents?: number;
+
+  /** Maximum number of events replayed on a connection (default: 1000, like the backend) */
+  maxReplayedEvents?: number;
+}
+
+/**
+ * An event in the event log, like an outbox document
+ */
+interface MockOutboxEvent {
+  eventId: string;
+  eventType: string;
+  data: string;
+  sequenceNumber: number;
+  targetClientId: string | null;
+}
+
+/**
+ * An open SSE connection
+ */
+interface MockSseConnection {
+  clientId: string;
+  filter: string | null;
+  processedIds: Set<string>;
+  write: (chunk: string) => void;
+}
+
+/**
+ * Options of a new connection
+ */
+export interface MockConnectOptions {
+  clientId: string;
+  filter?: string | null;
+  checkpoint?: number | null;
+  lastEventId?: string | null;
+  write: (chunk: string) => void;
+}
+
+/**
+ * In-memory SSE service
+ */
+export class MockSseService {
+  private options: Required<MockSseServiceOptions>;
+  private sequence = 0;
+  private events: MockOutboxEvent[] = [];
+  private connections: Set<MockSseConnection> = new Set();
+  private checkpoints: Map<string, number> = new Map();
+  private heartbeatTimer: ReturnType<typeof setInterval>;
+  private demoTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Creates a new mock service and starts the heartbeat timer
+   * @param options Mock service options
+   */
+  constructor(options: MockSseServiceOptions = {}) {
+    this.options = {
+      heartbeatInterval: 30000,
+      maxStoredEvents: 1000,
+      maxReplayedEvents: 1000,
+      ...options,
+    };
+
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), this.options.heartbeatInterval);
+  }
+
+  /**
+   * Opens a connection, replaying the events after its checkpoint first
+   * A checkpoint takes precedence over lastEventId; without either, the client resumes from
+   * the last sequence number delivered to its client ID, like the backend's stored checkpoint.
+   * @returns Function that closes the connection
+   */
+  public connect(options: MockConnectOptions): () => void {
+    const connection: MockSseConnection = {
+      clientId: options.clientId,
+      filter: options.filter || null,
+      processedIds: new Set(),
+      write: options.write,
+    };
+
+    const resumeFrom = options.checkpoint
+      ?? this.findSequenceNumber(options.lastEventId)
+      ?? this.checkpoints.get(options.clientId)
+      ?? null;
+
+    if (resumeFrom !== null) {
+      this.events
+        .filter(event => event.sequenceNumber > resumeFrom
+          && (event.targetClientId === null || event.targetClientId === connection.clientId))
+        .slice(0, this.options.maxReplayedEvents)
+        .forEach(event => this.deliver(connection, event));
+    }
+
+    this.connections.add(connection);
+    return () => {
+      this.connections.delete(connection);
+    };
+  }
+
+  /**
+   * Sends an event to every connected client
+   * @param eventType Event type
+   * @param data Event data, usually JSON
+   */
+  public sendEventToAll(eventType: string, data: string): void {
+    this.publish(eventType, data, null);
+  }
+
+  /**
+   * Sends an event to the connections of one client
+   * @param clientId Client ID
+   * @param eventType Event type
+   * @param data Event data, usually JSON
+   */
+  public sendEventToClient(clientId: string, eventType: string, data: string): void {
+    this.publish(eventType, data, clientId);
+  }
+
+  /**
+   * Gets the IDs of the connected clients
+   */
+  public getConnectedClients(): string[] {
+    return Array.from(new Set(Array.from(this.connections).map(connection => connection.clientId)));
+  }
+
+  /**
+   * Starts sending demo events, cycling through notification, alert, dataUpdate and heartbeat
+   * @param intervalSeconds Seconds between events
+   */
+  public startDemo(intervalSeconds: number): void {
+    let eventCount = 0;
+
+    this.demoTimer = setInterval(() => {
+      eventCount++;
+      const time = new Date().toLocaleTimeString('en-GB');
+
+      switch (eventCount % 4) {
+        case 0:
+          this.sendEventToAll('notification', JSON.stringify(
+            createPayload('notification', { message: `Demo notification #${eventCount} at ${time}`, severity: 'info' })));
+          break;
+        case 1:
+          this.sendEventToAll('alert', JSON.stringify(
+            createPayload('alert', { message: `Demo alert #${eventCount} - System check at ${time}`, severity: 'medium', category: 'demo' })));
+          break;
+        case 2:
+          this.sendEventToAll('dataUpdate', JSON.stringify(createPayload('dataUpdate', {
+            entityId: `demo-entity-${eventCount}`,
+            entityType: 'demoEntity',
+            changes: { counter: eventCount, timestamp: new Date().toISOString(), status: 'updated' },
+          })));
+          break;
+        case 3:
+          this.sendHeartbeat();
+          break;
+      }
+    }, intervalSeconds * 1000);
+  }
+
+  /**
+   * Stops sending demo events
+   */
+  public stopDemo(): void {
+    if (this.demoTimer !== null) {
+      clearInterval(this.demoTimer);
+      this.demoTimer = null;
+    }
+  }
+
+  /**
+   * Whether demo events are being sent
+   */
+  public isDemoRunning(): boolean {
+    return this.demoTimer !== null;
+  }
+
+  /**
+   * Stops the timers
+   */
+  public dispose(): void {
+    clearInterval(this.heartbeatTimer);
+    this.stopDemo();
+    this.connections.clear();
+  }
+
+  /**
+   * Sends a heartbeat to every client, if any is connected
+   */
+  private sendHeartbeat(): void {
+    if (this.connections.size === 0) {
+      return;
+    }
+
+    this.sendEventToAll('heartbeat', JSON.stringify(createPayload('heartbeat', {})));
+  }
+
+  /**
+   * Adds an event to the log with the next sequence number and delivers it
+   */
+  private publish(eventType: string, data: string, targetClientId: string | null): void {
+    const event: MockOutboxEvent = {
+      eventId: randomUUID(),
+      eventType,
+      data,
+      sequenceNumber: ++this.sequence,
+      targetClientId,
+    };
+
+    this.events.push(event);
+    if (this.events.length > this.options.maxStoredEvents) {
+      this.events.splice(0, this.events.length - this.options.maxStoredEvents);
+    }
+
+    Array.from(this.connections)
+      .filter(connection => targetClientId === null || connection.clientId === targetClientId)
+      .forEach(connection => this.deliver(connection, event));
+  }
+
+  /**
+   * Writes an event to a connection unless it is a duplicate or doesn't match the filter
+   */
+  private deliver(connection: MockSseConnection, event: MockOutboxEvent): void {
+    if (connection.processedIds.has(event.eventId)) {
+      return;
+    }
+    connection.processedIds.add(event.eventId);
+
+    // Filtered connections only receive the filtered type, heartbeats included
+    if (connection.filter && event.eventType !== 'connected'
+      && connection.filter.toLowerCase() !== event.eventType.toLowerCase()) {
+      return;
+    }
+
+    connection.write(formatEvent(event));
+    this.checkpoints.set(connection.clientId, event.sequenceNumber);
+  }
+
+  /**
+   * Finds the sequence number of a logged event
+   */
+  private findSequenceNumber(eventId: string | null | undefined): number | null {
+    if (!eventId) {
+      return null;
+    }
+
+    return this.events.find(event => event.eventId === eventId)?.sequenceNumber ?? null;
+  }
+}
+
+/**
+ * Builds an event payload with the base event fields
+ * @param type Event type
+ * @param fields Fields of the event type
+ */
+export function createPayload(type: string, fields: Record<string, unknown>): Record<string, unknown> {
+  return {
+    messageId: randomUUID(),
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    type,
+    ...fields,
+  };
+}
+
+/**
+ * Formats an event as an SSE frame, like SseEvent.Format
+ * JSON object data gets the sequence number as a leading _sequence field; other data is
+ * preceded by a separate data line holding it.
+ */
+function formatEvent(event: MockOutboxEvent): string {
+  const lines = [`id: ${event.eventId}`, `event: ${event.eventType}`];
+
+  let json: unknown;
+  try {
+    json = JSON.parse(event.data);
+  } catch {
+    json = undefined;
+  }
+
+  if (json !== null && typeof json === 'object' && !Array.isArray(json)) {
+    lines.push(`data: ${JSON.stringify({ _sequence: event.sequenceNumber, ...json })}`);
+  } else {
+    lines.push(`data: {"_sequence":${event.sequenceNumber}}`);
+    event.data.split('\n').forEach(line => lines.push(`data: ${line}`));
+  }
+
+  return lines.join('\n') + '\n\n';
+}
@@ -0,0 +1,520 @@
+/**
+ * Generates the frontend event models from the backend C# sources
+ * Reads backend/Models/SseEventTypes.cs and backend/Models/SseMessages.cs and writes the
+ * event type constants, payload interfaces and Zod schemas to src/models/generated.
+ *
+ * Usage:
+ *   npm run generate:models      Regenerates the files
+ *   npm run check:models         Fails when the checked-in files are out of date
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const frontendDir = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const backendModelsDir = resolve(frontendDir, '../backend/Models');
+const outputDir = resolve(frontendDir, 'src/models/generated');
+
+const eventTypesSource = resolve(backendModelsDir, 'SseEventTypes.cs');
+const messagesSource = resolve(backendModelsDir, 'SseMessages.cs');
+
+/**
+ * Schemas for properties whose constraints C# can't express
+ * Keyed by ClassName.PropertyName.
+ */
+const schemaOverrides: Record<string, string> = {
+  'NotificationPayload.Severity': "z.enum(['info', 'warning', 'error'])",
+};
+
+/**
+ * A string constant of a C# static class
+ */
+interface CSharpConstant {
+  name: string;
+  value: string;
+  summary: string[];
+}
+
+/**
+ * A property of a C# class
+ */
+interface CSharpProperty {
+  name: string;
+  jsonName: string;
+  type: string;
+  summary: string[];
+  initializer: string | null;
+  /** Value of an expression-bodied property (e.g. the Type discriminator) */
+  expression: string | null;
+}
+
+/**
+ * A C# class
+ */
+interface CSharpClass {
+  name: string;
+  baseName: string | null;
+  isAbstract: boolean;
+  summary: string[];
+  properties: CSharpProperty[];
+}
+
+/**
+ * A C# declaration with the doc comment and attributes above it
+ */
+interface Declaration {
+  line: string;
+  summary: string[];
+  attributes: string[];
+  body: string[];
+}
+
+/**
+ * TypeScript type and Zod schema of a C# type
+ */
+interface MappedType {
+  ts: string;
+  zod: string;
+}
+
+const primitiveTypes: Record<string, MappedType> = {
+  string: { ts: 'string', zod: 'z.string()' },
+  bool: { ts: 'boolean', zod: 'z.boolean()' },
+  byte: { ts: 'number', zod: 'z.number()' },
+  short: { ts: 'number', zod: 'z.number()' },
+  int: { ts: 'number', zod: 'z.number()' },
+  long: { ts: 'number', zod: 'z.number()' },
+  float: { ts: 'number', zod: 'z.number()' },
+  double: { ts: 'number', zod: 'z.number()' },
+  decimal: { ts: 'number', zod: 'z.number()' },
+  Guid: { ts: 'string', zod: 'z.string().uuid()' },
+  DateTime: { ts: 'string | Date', zod: 'z.string().datetime()' },
+  DateTimeOffset: { ts: 'string | Date', zod: 'z.string().datetime({ offset: true })' },
+  JsonElement: { ts: 'Record<string, unknown>', zod: 'z.record(z.unknown())' },
+  object: { ts: 'unknown', zod: 'z.unknown()' },
+};
+
+/**
+ * Collects the XML doc summary and attributes written above a declaration
+ */
+class LeadingTrivia {
+  private summary: string[] = [];
+  private attributes: string[] = [];
+  private inSummary = false;
+
+  /**
+   * Consumes a doc comment or attribute line
+   * @returns False if the line is neither
+   */
+  public consume(line: string): boolean {
+    if (line.startsWith('///')) {
+      const text = line.replace(/^\/\/\/\s?/, '').trim();
+      if (text.startsWith('<summary>')) {
+        this.inSummary = true;
+      } else if (text.startsWith('</summary>')) {
+        this.inSummary = false;
+      } else if (this.inSummary) {
+        this.summary.push(text);
+      }
+      return true;
+    }
+
+    if (line.startsWith('[') && line.endsWith(']')) {
+      this.attributes.push(line);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Attaches the collected trivia to a declaration line
+   */
+  public declare(line: string): Declaration {
+    return { line, summary: this.summary, attributes: this.attributes, body: [] };
+  }
+
+  /**
+   * Forgets the collected trivia
+   */
+  public reset(): void {
+    this.summary = [];
+    this.attributes = [];
+  }
+}
+
+/**
+ * Splits C# source into top-level declarations
+ * Only the subset of C# used by the model files is understood: one declaration or
+ * member per line, XML doc comments and attributes on the lines above.
+ */
+function parseDeclarations(lines: string[]): Declaration[] {
+  const declarations: Declaration[] = [];
+  const trivia = new LeadingTrivia();
+  let depth = 0;
+  let current: Declaration | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    // Everything inside a declaration belongs to its body
+    if (depth > 0) {
+      current?.body.push(line);
+      depth += countBraces(line);
+      continue;
+    }
+
+    if (trivia.consume(line)) {
+      continue;
+    }
+
+    if (/\b(class|record)\b/.test(line) && !line.startsWith('//')) {
+      current = trivia.declare(line);
+      declarations.push(current);
+    }
+
+    if (line !== '') {
+      trivia.reset();
+    }
+    depth += countBraces(line);
+  }
+
+  return declarations;
+}
+
+/**
+ * Counts opening minus closing braces on a line
+ */
+function countBraces(line: string): number {
+  return (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
+}
+
+/**
+ * Parses the public members of a class body
+ */
+function parseMembers(body: string[]): Declaration[] {
+  const members: Declaration[] = [];
+  const trivia = new LeadingTrivia();
+
+  for (const line of body) {
+    if (trivia.consume(line)) {
+      continue;
+    }
+
+    if (line.startsWith('public ')) {
+      members.push(trivia.declare(line));
+    }
+
+    if (line !== '') {
+      trivia.reset();
+    }
+  }
+
+  return members;
+}
+
+/**
+ * Parses the string constants of the SseEventTypes class
+ */
+function parseConstants(source: string): CSharpConstant[] {
+  const declaration = parseDeclarations(source.split(/\r?\n/))
+    .find(candidate => /\bclass\s+SseEventTypes\b/.test(candidate.line));
+  if (!declaration) {
+    throw new Error('SseEventTypes class not found');
+  }
+
+  return parseMembers(declaration.body).flatMap(member => {
+    const match = member.line.match(/^public\s+const\s+string\s+(\w+)\s*=\s*"([^"]*)"\s*;/);
+    return match ? [{ name: match[1], value: match[2], summary: member.summary }] : [];
+  });
+}
+
+/**
+ * Parses the payload classes
+ */
+function parseClasses(source: string): CSharpClass[] {
+  return parseDeclarations(source.split(/\r?\n/)).flatMap(declaration => {
+    const match = declaration.line.match(/^public\s+(abstract\s+)?class\s+(\w+)(?:\s*:\s*(\w+))?/);
+    if (!match) {
+      return [];
+    }
+
+    const properties = parseMembers(declaration.body).flatMap(member => {
+      const property = member.line.match(
+        /^public\s+(?:(?:abstract|override|virtual|required)\s+)*(.+?)\s+(\w+)\s*(?:\{[^}]*\}(?:\s*=\s*(.+?);)?|=>\s*(.+?);)\s*$/
+      );
+      if (!property) {
+        return [];
+      }
+
+      const jsonName = member.attributes
+        .map(attribute => attribute.match(/JsonPropertyName\("([^"]+)"\)/)?.[1])
+        .find(name => name !== undefined);
+
+      return [{
+        name: property[2],
+        jsonName: jsonName ?? toCamelCase(property[2]),
+        type: property[1],
+        summary: member.summary,
+        initializer: property[3] ?? null,
+        expression: property[4] ?? null,
+      }];
+    });
+
+    return [{
+      name: match[2],
+      baseName: match[3] ?? null,
+      isAbstract: match[1] !== undefined,
+      summary: declaration.summary,
+      properties,
+    }];
+  });
+}
+
+/**
+ * Converts a C# property name to its JSON name (System.Text.Json camel case policy)
+ */
+function toCamelCase(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Gets the schema name of a payload class (NotificationPayload -> NotificationSchema)
+ */
+function toSchemaName(className: string): string {
+  return `${className.replace(/Payload$/, '')}Schema`;
+}
+
+/**
+ * Maps a C# type to its TypeScript type and Zod schema
+ */
+function mapType(type: string, classNames: Set<string>): MappedType {
+  const nullable = type.endsWith('?');
+  const baseType = nullable ? type.slice(0, -1) : type;
+  let mapped: MappedType;
+
+  const list = baseType.match(/^(?:List|IList|IReadOnlyList|IEnumerable|ICollection)<(.+)>$/) ?? baseType.match(/^(.+)\[\]$/);
+  const dictionary = baseType.match(/^(?:Dictionary|IDictionary|IReadOnlyDictionary)<\s*string\s*,\s*(.+)>$/);
+
+  if (list) {
+    const item = mapType(list[1], classNames);
+    mapped = { ts: `${item.ts.includes(' ') ? `(${item.ts})` : item.ts}[]`, zod: `z.array(${item.zod})` };
+  } else if (dictionary) {
+    const value = mapType(dictionary[1], classNames);
+    mapped = { ts: `Record<string, ${value.ts}>`, zod: `z.record(${value.zod})` };
+  } else if (primitiveTypes[baseType]) {
+    mapped = primitiveTypes[baseType];
+  } else if (classNames.has(baseType)) {
+    mapped = { ts: baseType, zod: toSchemaName(baseType) };
+  } else {
+    throw new Error(`Unsupported C# type: ${type}`);
+  }
+
+  return nullable ? { ts: `${mapped.ts} | null`, zod: `${mapped.zod}.nullable().optional()` } : mapped;
+}
+
+/**
+ * Formats summary lines as a doc comment
+ */
+function docComment(summary: string[], indent = '', extraLines: string[] = []): string {
+  const lines = [...summary, ...extraLines];
+  if (lines.length === 0) {
+    return '';
+  }
+  if (lines.length === 1 && indent !== '') {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map(line => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Header marking a file as generated
+ */
+function header(sources: string[]): string {
+  const sourceList = sources.map(source => relative(resolve(frontendDir, '..'), source).replace(/\\/g, '/')).join(' and ');
+  return `/**\n * Generated from ${sourceList} by scripts/generate-models.ts\n * Do not edit by hand: change the C# source and run npm run generate:models.\n */\n`;
+}
+
+/**
+ * Orders classes so that base classes come before the classes deriving from them
+ */
+function sortByInheritance(classes: CSharpClass[]): CSharpClass[] {
+  const sorted: CSharpClass[] = [];
+  const visit = (csharpClass: CSharpClass) => {
+    if (sorted.includes(csharpClass)) {
+      return;
+    }
+    const base = classes.find(candidate => candidate.name === csharpClass.baseName);
+    if (base) {
+      visit(base);
+    }
+    sorted.push(csharpClass);
+  };
+  classes.forEach(visit);
+  return sorted;
+}
+
+/**
+ * Finds the SseEventTypes constant holding a discriminator value
+ */
+function findEventType(value: string, constants: CSharpConstant[]): CSharpConstant {
+  const constant = constants.find(candidate => candidate.value === value);
+  if (!constant) {
+    throw new Error(`No SseEventTypes constant for discriminator "${value}"`);
+  }
+  return constant;
+}
+
+/**
+ * Gets the discriminator value of a concrete payload class
+ */
+function getDiscriminator(csharpClass: CSharpClass): string | null {
+  const expression = csharpClass.properties.find(property => property.jsonName === 'type')?.expression;
+  return expression?.match(/^"([^"]*)"$/)?.[1] ?? null;
+}
+
+/**
+ * Generates the event type constants
+ */
+function generateEventTypes(constants: CSharpConstant[]): string {
+  const entries = constants
+    .map(constant => `${docComment(constant.summary, '  ')}  ${constant.name}: '${constant.value}'`)
+    .join(',\n\n');
+
+  return `${header([eventTypesSource])}
+/**
+ * Event type constants
+ * These match exactly with the backend SseEventTypes.cs values
+ */
+export const SseEventTypes = {
+${entries}
+} as const;
+`;
+}
+
+/**
+ * Generates the payload interfaces
+ */
+function generateMessages(classes: CSharpClass[], constants: CSharpConstant[]): string {
+  const classNames = new Set(classes.map(csharpClass => csharpClass.name));
+
+  const interfaces = classes.map(csharpClass => {
+    const extendsClause = csharpClass.baseName && classNames.has(csharpClass.baseName) ? ` extends ${csharpClass.baseName}` : '';
+    const members = csharpClass.properties.map(property => {
+      const discriminator = property.expression?.match(/^"([^"]*)"$/)?.[1];
+      const type = discriminator !== undefined
+        ? `typeof SseEventTypes.${findEventType(discriminator, constants).name}`
+        : mapType(property.type, classNames).ts;
+      const optional = property.type.endsWith('?') ? '?' : '';
+      return `${docComment(property.summary, '  ')}  ${property.jsonName}${optional}: ${type};`;
+    }).join('\n\n');
+
+    return `${docComment(csharpClass.summary, '', [`This matches the C# ${csharpClass.name} class in the backend`])}export interface ${csharpClass.name}${extendsClause} {\n${members}\n}`;
+  });
+
+  const payloads = classes.filter(csharpClass => !csharpClass.isAbstract && getDiscriminator(csharpClass) !== null);
+
+  return `${header([messagesSource])}import type { SseEventTypes } from './sseEventTypes';
+
+${interfaces.join('\n\n')}
+
+/**
+ * Union type for all possible event payloads
+ */
+export type EventPayload =
+${payloads.map(csharpClass => `  | ${csharpClass.name}`).join('\n')};
+`;
+}
+
+/**
+ * Generates the Zod schemas
+ */
+function generateSchemas(classes: CSharpClass[], constants: CSharpConstant[]): string {
+  const classNames = new Set(classes.map(csharpClass => csharpClass.name));
+
+  const schemas = classes.map(csharpClass => {
+    const fields = csharpClass.properties.map(property => {
+      const discriminator = property.expression?.match(/^"([^"]*)"$/)?.[1];
+      let schema: string;
+
+      if (discriminator !== undefined) {
+        schema = `z.literal(SseEventTypes.${findEventType(discriminator, constants).name})`;
+      } else if (schemaOverrides[`${csharpClass.name}.${property.name}`]) {
+        schema = schemaOverrides[`${csharpClass.name}.${property.name}`];
+      } else if (property.initializer === 'Guid.NewGuid().ToString()') {
+        schema = 'z.string().uuid()';
+      } else {
+        schema = mapType(property.type, classNames).zod;
+      }
+
+      return `  ${property.jsonName}: ${schema}`;
+    }).join(',\n');
+
+    const base = csharpClass.baseName && classNames.has(csharpClass.baseName) ? `${toSchemaName(csharpClass.baseName)}.extend` : 'z.object';
+    return `/**\n * Schema for ${csharpClass.name}\n */\nexport const ${toSchemaName(csharpClass.name)} = ${base}({\n${fields}\n});`;
+  });
+
+  const payloads = classes.filter(csharpClass => !csharpClass.isAbstract && getDiscriminator(csharpClass) !== null);
+
+  return `${header([messagesSource, eventTypesSource])}import { z } from 'zod';
+import { SseEventTypes } from './sseEventTypes';
+
+${schemas.join('\n\n')}
+
+/**
+ * Union schema for all possible event payloads
+ */
+export const EventPayloadSchema = z.discriminatedUnion('type', [
+${payloads.map(csharpClass => `  ${toSchemaName(csharpClass.name)}`).join(',\n')}
+]);
+`;
+}
+
+/**
+ * Generates every file, keyed by output path
+ */
+function generate(): Map<string, string> {
+  const constants = parseConstants(readFileSync(eventTypesSource, 'utf8'));
+  const classes = sortByInheritance(parseClasses(readFileSync(messagesSource, 'utf8'))
+    // Constant holder classes such as MessageTypes aren't payloads
+    .filter(csharpClass => csharpClass.properties.length > 0));
+
+  return new Map([
+    [resolve(outputDir, 'sseEventTypes.ts'), generateEventTypes(constants)],
+    [resolve(outputDir, 'sseMessages.ts'), generateMessages(classes, constants)],
+    [resolve(outputDir, 'sseSchemas.ts'), generateSchemas(classes, constants)],
+  ]);
+}
+
+function main(): void {
+  const check = process.argv.includes('--check');
+  const files = generate();
+  const staleFiles: string[] = [];
+
+  files.forEach((content, path) => {
+    const current = existsSync(path) ? readFileSync(path, 'utf8') : null;
+    if (current === content) {
+      return;
+    }
+
+    staleFiles.push(relative(frontendDir, path));
+    if (!check) {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, content);
+    }
+  });
+
+  if (check) {
+    if (staleFiles.length > 0) {
+      console.error(`Generated models are out of date:\n${staleFiles.map(file => `  ${file}`).join('\n')}`);
+      console.error('Run npm run generate:models and commit the result.');
+      process.exit(1);
+    }
+    console.log('Generated models are up to date.');
+    return;
+  }
+
+  console.log(staleFiles.length > 0 ? `Updated ${staleFiles.join(', ')}` : 'Generated models are already up to date.');
+}
+
+main();
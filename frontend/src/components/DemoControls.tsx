@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { SseApiClient } from '../services/sseApiClient';
 
 interface DemoControlsProps {
   apiKey?: string;
@@ -9,56 +10,21 @@ export default function DemoControls({ apiKey }: DemoControlsProps) {
   const [intervalSeconds, setIntervalSeconds] = useState(5);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const apiClient = useMemo(() => new SseApiClient({ apiKey }), [apiKey]);
 
   // Check demo status on mount
   useEffect(() => {
-    checkDemoStatus();
-  }, []);
-
-  const checkDemoStatus = async () => {
-    try {
-      const headers: HeadersInit = {};
-      if (apiKey) {
-        headers['X-API-Key'] = apiKey;
-      }
-
-      const response = await fetch('/api/demo/status', {
-        headers
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setIsRunning(data.isRunning);
-      }
-    } catch (err) {
-      console.error('Error checking demo status:', err);
-    }
-  };
+    apiClient.getDemoStatus()
+      .then((status) => setIsRunning(status.isRunning))
+      .catch((err) => console.error('Error checking demo status:', err));
+  }, [apiClient]);
 
   const startDemo = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-      if (apiKey) {
-        headers['X-API-Key'] = apiKey;
-      }
-
-      const response = await fetch('/api/demo/start', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ intervalSeconds }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        throw new Error(errorData || `HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = await apiClient.startDemo({ intervalSeconds });
       setIsRunning(true);
       console.log('Demo started:', data);
     } catch (err) {
@@ -74,22 +40,7 @@ export default function DemoControls({ apiKey }: DemoControlsProps) {
     setError(null);
 
     try {
-      const headers: HeadersInit = {};
-      if (apiKey) {
-        headers['X-API-Key'] = apiKey;
-      }
-
-      const response = await fetch('/api/demo/stop', {
-        method: 'POST',
-        headers,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        throw new Error(errorData || `HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = await apiClient.stopDemo();
       setIsRunning(false);
       console.log('Demo stopped:', data);
     } catch (err) {
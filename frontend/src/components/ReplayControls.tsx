@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { getLiveClients } from '../services/sseService';
+import { SseRecorder } from '../services/sseRecorder';
+import { SseReplay } from '../services/replayEventSource';
+import type { SseReplayState } from '../services/replayEventSource';
+
+interface ReplayControlsProps {
+  /** Replay the examples run against, or null when they use the backend */
+  replay: SseReplay | null;
+
+  /** Called when a recording is loaded or the replay is stopped */
+  onReplayChange: (replay: SseReplay | null) => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 5, 10];
+
+/**
+ * Record and replay controls
+ * Records the frames of a live client to an NDJSON file, and replays a recording
+ * through the examples without a backend.
+ */
+export default function ReplayControls({ replay, onReplayChange }: ReplayControlsProps) {
+  const [recorder, setRecorder] = useState<SseRecorder | null>(null);
+  const [replayState, setReplayState] = useState<SseReplayState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the playback state
+  useEffect(() => {
+    if (!replay) {
+      setReplayState(null);
+      return;
+    }
+
+    setReplayState(replay.getState());
+    return replay.subscribe(setReplayState);
+  }, [replay]);
+
+  // Record the first live client
+  const startRecording = () => {
+    const [client] = getLiveClients();
+    if (!client) {
+      setError('No live SSE client to record. Connect one of the examples first.');
+      return;
+    }
+
+    const newRecorder = new SseRecorder(client);
+    newRecorder.start();
+    setRecorder(newRecorder);
+    setError(null);
+  };
+
+  // Stop recording and download the NDJSON file
+  const stopRecording = () => {
+    if (recorder) {
+      recorder.stop();
+      recorder.download();
+      setRecorder(null);
+    }
+  };
+
+  // Load a recording and replay it through the examples
+  const loadRecording = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+
+    try {
+      onReplayChange(new SseReplay(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid recording');
+    }
+  };
+
+  return (
+    <div className="controls">
+      {recorder ? (
+        <button onClick={stopRecording}>⏹ Stop recording &amp; download</button>
+      ) : (
+        <button onClick={startRecording} disabled={replay !== null}>⏺ Record session</button>
+      )}
+
+      {replay && replayState ? (
+        <>
+          <button onClick={() => (replayState.playing ? replay.pause() : replay.play())}>
+            {replayState.playing ? '⏸ Pause' : '▶ Play'}
+          </button>
+          <button onClick={() => replay.step()} disabled={replayState.position >= replayState.total}>
+            ⏭ Step
+          </button>
+          <button onClick={() => replay.rewind()}>⏮ Rewind</button>
+          <select value={replayState.speed} onChange={(e) => replay.setSpeed(Number(e.target.value))}>
+            {SPEEDS.map(speed => (
+              <option key={speed} value={speed}>{speed}x</option>
+            ))}
+          </select>
+          <span>Frame {replayState.position} / {replayState.total}</span>
+          <button onClick={() => onReplayChange(null)}>Exit replay</button>
+        </>
+      ) : (
+        <label>
+          Replay a recording:{' '}
+          <input type="file" accept=".ndjson,.jsonl,application/x-ndjson" onChange={(e) => loadRecording(e.target.files?.[0])} />
+        </label>
+      )}
+
+      {error && <span style={{ color: 'var(--error-color)' }}>❌ {error}</span>}
+    </div>
+  );
+}
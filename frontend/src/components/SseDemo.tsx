@@ -7,6 +7,9 @@ import CustomEventsExample from './examples/CustomEventsExample';
 import TypedEventsExample from './examples/TypedEventsExample';
 import CheckpointRecoveryExample from './examples/CheckpointRecoveryExample';
 import DemoControls from './DemoControls';
+import SseInspector from './SseInspector';
+import ReplayControls from './ReplayControls';
+import type { SseReplay } from '../services/replayEventSource';
 
 // Get configuration from environment variables or use defaults
 // When VITE_API_URL is empty or not set, use relative paths (for Ingress/proxy setup)
@@ -24,6 +27,15 @@ export default function SseDemo() {
   const [activeTab, setActiveTab] = useState('basic');
   const [clientId] = useState(() => `client-${Math.random().toString(36).substring(2, 9)}`);
   const [showApiKeyWarning] = useState(!API_KEY);
+  const [showInspector, setShowInspector] = useState(false);
+  const [replay, setReplay] = useState<SseReplay | null>(null);
+  const [replayCount, setReplayCount] = useState(0);
+
+  // Switch the examples to a replay, or back to the backend
+  const changeReplay = (nextReplay: SseReplay | null) => {
+    setReplay(nextReplay);
+    setReplayCount(count => count + 1);
+  };
 
   // Tabs configuration
   const tabs = [
@@ -52,7 +64,7 @@ export default function SseDemo() {
             <ul style={{ listStyle: 'none', padding: 0 }}>
               <li>🔵 <strong>Basic:</strong> Simple connection and event receiving - perfect for getting started</li>
               <li>🟣 <strong>Filtered:</strong> Server-side filtering to reduce bandwidth usage</li>
-              <li>🟢 <strong>Multiple:</strong> Manage multiple concurrent connections for complex apps</li>
+              <li>🟢 <strong>Multiple:</strong> Split one connection into independent streams for complex apps</li>
               <li>🟠 <strong>Reconnection:</strong> Handle network failures with automatic recovery</li>
               <li>⚡ <strong>Checkpoint:</strong> Resume from last received event after disconnection - no event loss</li>
               <li>🔴 <strong>Custom:</strong> Send events between clients for collaborative features</li>
@@ -67,6 +79,15 @@ export default function SseDemo() {
 
       <DemoControls apiKey={API_KEY} />
 
+      <div className="controls">
+        <button onClick={() => setShowInspector(!showInspector)}>
+          {showInspector ? 'Hide SSE Inspector' : '🔍 Show SSE Inspector'}
+        </button>
+      </div>
+      {showInspector && <SseInspector />}
+
+      <ReplayControls replay={replay} onReplayChange={changeReplay} />
+
       <div className="tabs">
         <div className="tab-buttons">
           {tabs.map(tab => (
@@ -83,7 +104,10 @@ export default function SseDemo() {
         <div className="tab-content">
           {tabs.map(tab => (
             <div key={tab.id} className={`tab-pane ${activeTab === tab.id ? 'active' : ''}`}>
-              {activeTab === tab.id && <tab.component clientId={clientId} backendUrl={BACKEND_URL} apiKey={API_KEY} />}
+              {/* The key remounts the example, so its clients are recreated for the replay or the backend */}
+              {activeTab === tab.id && (
+                <tab.component key={replayCount} clientId={clientId} backendUrl={BACKEND_URL} apiKey={API_KEY} replay={replay ?? undefined} />
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState } from 'react';
+import { getLiveClients, onLiveClientsChange } from '../services/sseService';
+import type { SseClient, SseConnectionRequest, SseEvent } from '../services/sseService';
+
+interface SseInspectorProps {
+  /** Client to inspect; when not set, any live client can be picked */
+  client?: SseClient | null;
+
+  /** Maximum number of frames kept (default: 500) */
+  maxFrames?: number;
+}
+
+/**
+ * A frame as shown in the inspector
+ */
+interface InspectorFrame {
+  key: number;
+  timestamp: number;
+  frame: SseEvent;
+  payload: unknown;
+}
+
+/**
+ * An entry of the connection timeline
+ */
+interface TimelineEntry {
+  timestamp: number;
+  text: string;
+}
+
+/**
+ * Quotes a value for a POSIX shell
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Formats a connection request as a curl command that streams the same events
+ */
+function toCurlCommand(request: SseConnectionRequest): string {
+  const url = new URL(request.url, window.location.origin).toString();
+  const headers = { Accept: 'text/event-stream', ...request.headers };
+
+  return [
+    'curl -N',
+    ...Object.entries(headers).map(([name, value]) => `-H ${shellQuote(`${name}: ${value}`)}`),
+    shellQuote(url),
+  ].join(' ');
+}
+
+/**
+ * Formats a time as HH:MM:SS.mmm
+ */
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString()}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+}
+
+/**
+ * SSE inspector
+ * Attaches to a live SseClient and shows its raw frames, parsed payloads, checkpoint,
+ * retry timeline and registered listeners.
+ */
+export default function SseInspector({ client: pinnedClient, maxFrames = 500 }: SseInspectorProps) {
+  const [liveClients, setLiveClients] = useState<SseClient[]>(() => getLiveClients());
+  const [selectedClient, setSelectedClient] = useState<SseClient | null>(null);
+  const [frames, setFrames] = useState<InspectorFrame[]>([]);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [missedWhilePaused, setMissedWhilePaused] = useState(0);
+  const [search, setSearch] = useState('');
+  const [expandedFrame, setExpandedFrame] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [, setNow] = useState(() => Date.now());
+  const pausedRef = useRef(paused);
+  const frameKeyRef = useRef(0);
+
+  // Keep the client list current
+  useEffect(() => onLiveClientsChange(() => setLiveClients(getLiveClients())), []);
+
+  const client = pinnedClient
+    ?? (selectedClient && liveClients.includes(selectedClient) ? selectedClient : liveClients[0] ?? null);
+
+  useEffect(() => {
+    pausedRef.current = paused;
+    if (!paused) {
+      setMissedWhilePaused(0);
+    }
+  }, [paused]);
+
+  // Refresh the checkpoint and listener panels, which are read from the client on render
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  // Record the diagnostics of the inspected client
+  useEffect(() => {
+    setFrames([]);
+    setExpandedFrame(null);
+
+    if (!client) {
+      setTimeline([]);
+      return;
+    }
+
+    setTimeline([{ timestamp: Date.now(), text: `Attached to ${client.getLabel()} (status: ${client.getStatus()})` }]);
+    const addToTimeline = (timestamp: number, text: string) => {
+      setTimeline(prev => [...prev, { timestamp, text }].slice(-maxFrames));
+    };
+
+    return client.subscribeDiagnostics((event) => {
+      switch (event.kind) {
+        case 'frame':
+          if (pausedRef.current) {
+            setMissedWhilePaused(prev => prev + 1);
+            return;
+          }
+          setFrames(prev => [...prev, {
+            key: frameKeyRef.current++,
+            timestamp: event.timestamp,
+            frame: event.frame,
+            payload: event.payload,
+          }].slice(-maxFrames));
+          break;
+        case 'status':
+          addToTimeline(event.timestamp, `Status: ${event.status}`);
+          break;
+        case 'retry':
+          addToTimeline(event.timestamp, `Retry ${event.retry.attempt} scheduled in ${event.retry.delay}ms (at ${formatTime(event.retry.nextRetryAt)})`);
+          break;
+      }
+    });
+  }, [client, maxFrames]);
+
+  // Copy the connection request as a curl command
+  const copyAsCurl = async () => {
+    if (!client) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(toCurlCommand(client.getConnectionRequest()));
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying curl command:', error);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleFrames = query
+    ? frames.filter(({ frame }) => `${frame.id ?? ''} ${frame.event ?? ''} ${frame.data}`.toLowerCase().includes(query))
+    : frames;
+  const listenerInfo = client?.getListenerInfo();
+  const nextRetryAt = client?.getNextRetryAt() ?? null;
+  const lastActivityAt = client?.getLastActivityAt() ?? null;
+
+  return (
+    <div className="sse-inspector">
+      <div className="sse-inspector-toolbar">
+        {pinnedClient === undefined && (
+          <select
+            value={client ? liveClients.indexOf(client) : -1}
+            onChange={(e) => setSelectedClient(liveClients[Number(e.target.value)] ?? null)}
+          >
+            {liveClients.length === 0 && <option value={-1}>No live clients</option>}
+            {liveClients.map((liveClient, index) => (
+              <option key={index} value={index}>{liveClient.getLabel()}</option>
+            ))}
+          </select>
+        )}
+        <button onClick={() => setPaused(!paused)} disabled={!client}>
+          {paused ? `Resume${missedWhilePaused > 0 ? ` (${missedWhilePaused} missed)` : ''}` : 'Pause'}
+        </button>
+        <button onClick={() => setFrames([])}>Clear</button>
+        <button onClick={copyAsCurl} disabled={!client}>
+          {copied ? 'Copied!' : 'Copy as curl'}
+        </button>
+        <input
+          type="search"
+          placeholder="Filter frames (id, event, data)"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      {!client ? (
+        <p className="no-events">No live SSE client. Connect one of the examples to inspect it.</p>
+      ) : (
+        <div className="sse-inspector-panels">
+          <div className="sse-inspector-frames">
+            <h4>Frames ({visibleFrames.length}{query ? ` of ${frames.length}` : ''})</h4>
+            {visibleFrames.length === 0 ? (
+              <p className="no-events">No frames yet.</p>
+            ) : (
+              <ul className="events-list">
+                {visibleFrames.map(({ key, timestamp, frame, payload }) => (
+                  <li key={key} className="event-item" onClick={() => setExpandedFrame(expandedFrame === key ? null : key)}>
+                    <div className="event-header">
+                      <span className="event-type">{frame.event}</span>
+                      {frame.id && <span className="event-id">id: {frame.id}</span>}
+                      <span className="event-time">{formatTime(timestamp)}</span>
+                    </div>
+                    <pre className="event-data">
+                      {expandedFrame === key
+                        ? (payload === undefined ? `${frame.data}\n\n(not JSON)` : JSON.stringify(payload, null, 2))
+                        : frame.data}
+                    </pre>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="sse-inspector-state">
+            <h4>Checkpoint</h4>
+            <ul className="logs-list">
+              <li className="log-entry">Status: {client.getStatus()}</li>
+              <li className="log-entry">Last sequence: {client.getLastSequenceNumber() ?? '-'}</li>
+              <li className="log-entry">Last event ID: {client.getLastEventId() ?? '-'}</li>
+              <li className="log-entry">Last HTTP status: {client.getLastHttpStatus() ?? '-'}</li>
+              <li className="log-entry">Last activity: {lastActivityAt !== null ? formatTime(lastActivityAt) : '-'}</li>
+              <li className="log-entry">
+                Retries: {client.getRetryCount()}{nextRetryAt !== null && `, next at ${formatTime(nextRetryAt)}`}
+              </li>
+            </ul>
+
+            <h4>Listeners</h4>
+            <ul className="logs-list">
+              {listenerInfo && Object.entries(listenerInfo.eventListeners).map(([eventType, count]) => (
+                <li key={eventType} className="log-entry">
+                  {eventType}: {count} listener{count === 1 ? '' : 's'}
+                  {listenerInfo.onEventHandlers.includes(eventType) && ' (onEvent)'}
+                </li>
+              ))}
+              <li className="log-entry">onEvent handlers: {listenerInfo?.onEventHandlers.join(', ') || 'none'}</li>
+              <li className="log-entry">onMessage: {listenerInfo?.onMessage ? 'set' : 'not set'}</li>
+              <li className="log-entry">Subscribers: {listenerInfo?.subscribers ?? 0}</li>
+            </ul>
+
+            <h4>Timeline</h4>
+            <ul className="logs-list">
+              {timeline.map((entry, index) => (
+                <li key={index} className="log-entry">{formatTime(entry.timestamp)} {entry.text}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import type { ReactNode } from 'react';
+import type { SseOptions } from '../services/sseService';
+import { SseStore } from '../services/sseStore';
+import type { SseEntityStore } from '../services/sseEntityStore';
+import type { SseStoreOptions } from '../services/sseStore';
+import { SseSubscriptionManager } from '../services/sseSubscriptionManager';
+import { SseContext } from '../hooks/sseContext';
+import type { SseContextValue } from '../hooks/sseContext';
+
+export interface SseProviderProps extends SseOptions {
+  /** Whether to connect immediately (default: true) */
+  autoConnect?: boolean;
+
+  /** Entity store to apply the client's data updates to */
+  entityStore?: SseEntityStore;
+
+  children?: ReactNode;
+}
+
+/**
+ * SSE provider
+ * Owns one SseClient for its subtree: nested components read it with useSseContext and
+ * subscribe to its events with useSseSubscription instead of receiving it through props.
+ * Like useSse, the client lives in an SseStore: it connects on mount and closes on unmount,
+ * and changing any option other than a callback replaces it. With an entityStore, the
+ * client's data updates are applied to that store for useEntity and useEntities.
+ */
+export default function SseProvider({ autoConnect, entityStore, children, ...options }: SseProviderProps) {
+  const storeOptions: SseStoreOptions = { ...options, autoConnect };
+  const [store] = useState(() => new SseStore(storeOptions));
+  const status = useSyncExternalStore(store.subscribe, () => store.getSnapshot().status);
+  const client = useSyncExternalStore(store.subscribe, () => store.getSnapshot().client);
+
+  // Hand the store every render's options, before the client connects or receives events
+  useLayoutEffect(() => {
+    store.setOptions(storeOptions);
+  });
+
+  // Follow the client into the entity store when it is replaced
+  useEffect(() => entityStore?.attach(client), [entityStore, client]);
+
+  // Each manager detaches from its client once its last subscription is removed
+  const subscriptions = useMemo(() => new SseSubscriptionManager(client), [client]);
+
+  const connect = useCallback(() => {
+    store.connect();
+  }, [store]);
+
+  const disconnect = useCallback(() => {
+    store.disconnect();
+  }, [store]);
+
+  const value = useMemo<SseContextValue>(
+    () => ({ client, status, subscriptions, connect, disconnect }),
+    [client, status, subscriptions, connect, disconnect]
+  );
+
+  return <SseContext.Provider value={value}>{children}</SseContext.Provider>;
+}
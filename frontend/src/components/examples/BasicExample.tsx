@@ -1,24 +1,27 @@
 // No useState needed
 import { useSse } from '../../hooks/useSse';
 import { SseConnectionStatus } from '../../services/sseService';
+import type { SseReplay } from '../../services/replayEventSource';
 
 interface BasicExampleProps {
   clientId: string;
   backendUrl: string;
   apiKey?: string;
+  replay?: SseReplay;
 }
 
 /**
  * Basic SSE example component
  * Demonstrates the simplest way to use SSE with the custom hook
  */
-export default function BasicExample({ clientId, backendUrl, apiKey }: BasicExampleProps) {
+export default function BasicExample({ clientId, backendUrl, apiKey, replay }: BasicExampleProps) {
   // Use the SSE hook with auto-connect
   const { status, events, connect, disconnect, clearEvents } = useSse({
     url: backendUrl,
     clientId,
     autoConnect: true,
     apiKey,
+    replay,
   });
 
   // Format the connection status
@@ -30,6 +33,8 @@ export default function BasicExample({ clientId, backendUrl, apiKey }: BasicExam
         return 'status-warning';
       case SseConnectionStatus.ERROR:
         return 'status-error';
+      case SseConnectionStatus.OFFLINE:
+        return 'status-offline';
       default:
         return 'status-default';
     }
@@ -1,11 +1,13 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useSse } from '../../hooks/useSse';
 import { SseConnectionStatus } from '../../services/sseService';
+import type { SseReplay } from '../../services/replayEventSource';
 
 interface CheckpointRecoveryExampleProps {
   clientId: string;
   backendUrl: string;
   apiKey?: string;
+  replay?: SseReplay;
 }
 
 interface EventData {
@@ -20,7 +22,7 @@ interface EventData {
  * Checkpoint Recovery Example
  * Demonstrates how checkpoint recovery works on reconnection
  */
-export default function CheckpointRecoveryExample({ clientId, backendUrl, apiKey }: CheckpointRecoveryExampleProps) {
+export default function CheckpointRecoveryExample({ clientId, backendUrl, apiKey, replay }: CheckpointRecoveryExampleProps) {
   const [useCheckpoint, setUseCheckpoint] = useState(true);
   const [eventLog, setEventLog] = useState<EventData[]>([]);
   const [checkpointInfo, setCheckpointInfo] = useState<{ sequence: number | null; eventId: string | null }>({
@@ -42,8 +44,10 @@ export default function CheckpointRecoveryExample({ clientId, backendUrl, apiKey
     clientId: `${clientId}-checkpoint`,
     useCheckpoint,
     checkpointStorageKey: `sse-checkpoint-demo`,
+    idlePolicy: { hiddenTimeout: 60 * 1000 },
     autoConnect: false,
     apiKey,
+    replay,
   });
 
   // Process incoming events
@@ -148,7 +152,8 @@ export default function CheckpointRecoveryExample({ clientId, backendUrl, apiKey
           disconnections by resuming from the last received sequence number.
         </p>
         <p>
-          <strong>Key features:</strong> Automatic checkpoint saving, sequence tracking, event replay on reconnection
+          <strong>Key features:</strong> Automatic checkpoint saving, sequence tracking, event replay on reconnection,
+          closing the stream after a minute in a hidden tab and resuming from the checkpoint when it becomes visible
         </p>
         <p>
           <strong>Use this when:</strong> Building apps where event loss is unacceptable (financial data, notifications, etc.)
@@ -256,6 +261,10 @@ export default function CheckpointRecoveryExample({ clientId, backendUrl, apiKey
         <h3>Code Example</h3>
         <pre>
 {`import { useSse } from '../hooks/useSse.js';
+import { IndexedDbCheckpointStore } from '../services/checkpointStore';
+
+// Memory, sessionStorage, localStorage (default) and IndexedDB stores are available
+const checkpointStore = new IndexedDbCheckpointStore();
 
 function CheckpointRecoveryComponent() {
   const { status, events, sseClient } = useSse({
@@ -263,6 +272,10 @@ function CheckpointRecoveryComponent() {
     clientId: 'my-client-id',
     useCheckpoint: true,              // Enable checkpoint recovery
     checkpointStorageKey: 'my-app',   // Custom storage key
+    checkpointStore,                  // Custom storage backend
+    idlePolicy: {
+      hiddenTimeout: 60 * 1000,       // Close after a minute in a hidden tab
+    },
     onMessage: (event) => {
       const data = JSON.parse(event.data);
       const sequence = data._sequence;
@@ -1,19 +1,22 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useSse } from '../../hooks/useSse';
 import { SseConnectionStatus } from '../../services/sseService';
+import { SseApiClient } from '../../services/sseApiClient';
 import { SseEventTypes } from '../../models/sseEventTypes';
+import type { SseReplay } from '../../services/replayEventSource';
 
 interface CustomEventsExampleProps {
   clientId: string;
   backendUrl: string;
   apiKey?: string;
+  replay?: SseReplay;
 }
 
 /**
  * Custom Events Example
  * Demonstrates how to send and receive custom events
  */
-export default function CustomEventsExample({ clientId, backendUrl, apiKey }: CustomEventsExampleProps) {
+export default function CustomEventsExample({ clientId, backendUrl, apiKey, replay }: CustomEventsExampleProps) {
   const [customEventType, setCustomEventType] = useState<string>(SseEventTypes.Message);
   const [customEventData, setCustomEventData] = useState('{"text": "Hello from the client!"}');
   
@@ -23,7 +26,9 @@ export default function CustomEventsExample({ clientId, backendUrl, apiKey }: Cu
     clientId: `${clientId}-custom`,
     autoConnect: true,
     apiKey,
+    replay,
   });
+  const apiClient = useMemo(() => new SseApiClient({ apiKey }), [apiKey]);
 
   // Send a custom event using the broadcast endpoint
   const sendCustomEvent = async () => {
@@ -36,26 +41,11 @@ export default function CustomEventsExample({ clientId, backendUrl, apiKey }: Cu
         return;
       }
 
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-      if (apiKey) {
-        headers['X-API-Key'] = apiKey;
-      }
-
-      const response = await fetch('/api/sse/broadcast', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          eventType: customEventType,
-          data: customEventData,
-        }),
+      await apiClient.broadcast({
+        eventType: customEventType,
+        data: customEventData,
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
       console.log(`Sent ${customEventType} event successfully`);
     } catch (error) {
       console.error('Error sending custom event:', error);
@@ -66,55 +56,32 @@ export default function CustomEventsExample({ clientId, backendUrl, apiKey }: Cu
   // Send a typed event using the specific endpoints
   const sendTypedEvent = async (type: string) => {
     try {
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-      if (apiKey) {
-        headers['X-API-Key'] = apiKey;
-      }
-
-      let endpoint = '';
-      let body = {};
-
       switch (type) {
         case 'notification':
-          endpoint = '/api/sse/notification';
-          body = {
+          await apiClient.sendNotification({
             message: `Test notification sent at ${new Date().toLocaleTimeString()}`,
             severity: 'info'
-          };
+          });
           break;
         case 'alert':
-          endpoint = '/api/sse/alert';
-          body = {
+          await apiClient.sendAlert({
             message: `Test alert sent at ${new Date().toLocaleTimeString()}`,
             severity: 'high',
             category: 'system'
-          };
+          });
           break;
         case 'dataUpdate':
-          endpoint = '/api/sse/data-update';
-          body = {
+          await apiClient.sendDataUpdate({
             entityId: 'test-123',
             entityType: 'test',
             changes: { 
               status: 'updated',
               timestamp: new Date().toISOString() 
             }
-          };
+          });
           break;
       }
 
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(body),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
       console.log(`Sent ${type} event successfully`);
     } catch (error) {
       console.error(`Error sending ${type} event:`, error);
@@ -131,6 +98,8 @@ export default function CustomEventsExample({ clientId, backendUrl, apiKey }: Cu
         return 'status-warning';
       case SseConnectionStatus.ERROR:
         return 'status-error';
+      case SseConnectionStatus.OFFLINE:
+        return 'status-offline';
       default:
         return 'status-default';
     }
@@ -269,38 +238,25 @@ export default function CustomEventsExample({ clientId, backendUrl, apiKey }: Cu
       <div className="code-example">
         <h3>Code Example</h3>
         <pre>
-{`// Send a custom event
-async function sendCustomEvent(eventType, eventData) {
-  const response = await fetch('/api/sse/broadcast', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-API-Key': 'your-api-key'
-    },
-    body: JSON.stringify({
-      eventType: eventType,
-      data: JSON.stringify(eventData)
-    })
-  });
-  
-  if (!response.ok) {
-    throw new Error('Failed to send event');
-  }
-}
+{`const api = new SseApiClient({ apiKey: 'your-api-key' });
+
+// Send a custom event
+await api.broadcast({
+  eventType: 'myEvent',
+  data: JSON.stringify({ text: 'Hello' })
+});
 
 // Send typed events using specific endpoints
-async function sendNotification(message) {
-  const response = await fetch('/api/sse/notification', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-API-Key': 'your-api-key'
-    },
-    body: JSON.stringify({
-      message: message,
-      severity: 'info'
-    })
-  });
+await api.sendNotification({ message: 'Hello', severity: 'info' });
+await api.sendAlertToClient('my-client-id', { message: 'Disk full', severity: 'critical' });
+
+// Failed requests throw typed errors
+try {
+  await api.sendNotification({ message: '' });
+} catch (error) {
+  if (error instanceof SseApiHttpError) {
+    console.log(error.status, error.body); // 400 "Message is required"
+  }
 }
 
 // Receive all events
@@ -1,12 +1,15 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useSse } from '../../hooks/useSse';
 import { SseConnectionStatus } from '../../services/sseService';
+import { SseApiClient } from '../../services/sseApiClient';
 import { SseEventTypes } from '../../models/sseEventTypes';
+import type { SseReplay } from '../../services/replayEventSource';
 
 interface FilteredEventsExampleProps {
   clientId: string;
   backendUrl: string;
   apiKey?: string;
+  replay?: SseReplay;
 }
 
 // Event type information
@@ -37,7 +40,7 @@ const eventTypeInfo: Record<string, { automatic: boolean; description: string; e
  * Filtered Events Example
  * Demonstrates how to filter events on the server side
  */
-export default function FilteredEventsExample({ clientId, backendUrl, apiKey }: FilteredEventsExampleProps) {
+export default function FilteredEventsExample({ clientId, backendUrl, apiKey, replay }: FilteredEventsExampleProps) {
   const [filter, setFilter] = useState('notification');
   const [isConnected, setIsConnected] = useState(false);
   const [isSending, setIsSending] = useState(false);
@@ -49,7 +52,9 @@ export default function FilteredEventsExample({ clientId, backendUrl, apiKey }:
     filter,
     autoConnect: false,
     apiKey,
+    replay,
   });
+  const apiClient = useMemo(() => new SseApiClient({ apiKey }), [apiKey]);
 
   // Send a test event of the selected type
   const sendTestEvent = async () => {
@@ -60,55 +65,34 @@ export default function FilteredEventsExample({ clientId, backendUrl, apiKey }:
 
     setIsSending(true);
     try {
-      const baseApiUrl = backendUrl.replace('/connect', '');
-      let endpoint = '';
-      let body = {};
-
       switch (filter) {
         case SseEventTypes.Notification:
-          endpoint = `${baseApiUrl}/notification`;
-          body = {
+          await apiClient.sendNotification({
             message: `Test notification sent at ${new Date().toLocaleTimeString()}`,
             severity: 'info'
-          };
+          });
           break;
         case SseEventTypes.Alert:
-          endpoint = `${baseApiUrl}/alert`;
-          body = {
+          await apiClient.sendAlert({
             message: `Test alert triggered at ${new Date().toLocaleTimeString()}`,
             severity: 'high',
             category: 'system'
-          };
+          });
           break;
         case SseEventTypes.DataUpdate:
-          endpoint = `${baseApiUrl}/data-update`;
-          body = {
+          await apiClient.sendDataUpdate({
             entityId: 'test-123',
             entityType: 'test',
             changes: { timestamp: new Date().toISOString() }
-          };
+          });
           break;
         case SseEventTypes.Heartbeat:
-          endpoint = `${baseApiUrl}/broadcast`;
-          body = {
+          await apiClient.broadcast({
             eventType: 'heartbeat',
             data: JSON.stringify({ timestamp: new Date().toISOString() })
-          };
+          });
           break;
       }
-
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': apiKey
-        },
-        body: JSON.stringify(body)
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to send event: ${response.statusText}`);
-      }
     } catch (error) {
       console.error('Error sending test event:', error);
       alert('Failed to send test event. Check console for details.');
@@ -138,6 +122,8 @@ export default function FilteredEventsExample({ clientId, backendUrl, apiKey }:
         return 'status-warning';
       case SseConnectionStatus.ERROR:
         return 'status-error';
+      case SseConnectionStatus.OFFLINE:
+        return 'status-offline';
       default:
         return 'status-default';
     }
@@ -1,67 +1,63 @@
-// No useState needed
-import { useSse } from '../../hooks/useSse';
+import { useState } from 'react';
 import { SseConnectionStatus } from '../../services/sseService';
+import type { SseEvent } from '../../services/sseService';
+import SseProvider from '../SseProvider';
+import { useSseContext } from '../../hooks/sseContext';
+import { useSseSubscription } from '../../hooks/useSseSubscription';
 import { SseEventTypes } from '../../models/sseEventTypes';
+import type { SseReplay } from '../../services/replayEventSource';
 
 interface MultipleStreamsExampleProps {
   clientId: string;
   backendUrl: string;
   apiKey?: string;
+  replay?: SseReplay;
 }
 
+interface StreamColumnProps {
+  title: string;
+  eventType: string;
+  itemClassName: string;
+  emptyText: string;
+}
+
+// Maximum number of events kept per stream
+const MAX_EVENTS_PER_STREAM = 50;
+
 /**
  * Multiple Streams Example
- * Demonstrates how to use multiple SSE connections simultaneously
+ * Demonstrates how to split one SSE connection into several independent streams
  */
-export default function MultipleStreamsExample({ clientId, backendUrl, apiKey }: MultipleStreamsExampleProps) {
-  // Create three separate SSE connections with different filters
-  const notificationStream = useSse({
-    url: backendUrl,
-    clientId: `${clientId}-notifications`,
-    filter: SseEventTypes.Notification,
-    autoConnect: false,
-    apiKey,
-  });
-
-  const alertStream = useSse({
-    url: backendUrl,
-    clientId: `${clientId}-alerts`,
-    filter: SseEventTypes.Alert,
-    autoConnect: false,
-    apiKey,
-  });
-
-  const updateStream = useSse({
-    url: backendUrl,
-    clientId: `${clientId}-updates`,
-    filter: 'update', // Keep legacy filter for demonstration
-    autoConnect: false,
-    apiKey,
-  });
-
-  // Connect all streams
-  const connectAll = () => {
-    notificationStream.connect();
-    alertStream.connect();
-    updateStream.connect();
-  };
+export default function MultipleStreamsExample({ clientId, backendUrl, apiKey, replay }: MultipleStreamsExampleProps) {
+  // A single connection carries every event type; the nested streams share it through the provider
+  return (
+    <SseProvider
+      url={backendUrl}
+      clientId={`${clientId}-streams`}
+      autoConnect={false}
+      crossTab={true}
+      apiKey={apiKey}
+      replay={replay}
+    >
+      <MultipleStreams />
+    </SseProvider>
+  );
+}
 
-  // Disconnect all streams
-  const disconnectAll = () => {
-    notificationStream.disconnect();
-    alertStream.disconnect();
-    updateStream.disconnect();
-  };
+/**
+ * Connection controls and the streams of the provider's connection
+ */
+function MultipleStreams() {
+  const { status, connect, disconnect } = useSseContext();
+  const [clearCount, setClearCount] = useState(0);
 
-  // Clear all events
+  // Clear all events by remounting the streams
   const clearAll = () => {
-    notificationStream.clearEvents();
-    alertStream.clearEvents();
-    updateStream.clearEvents();
+    setClearCount(count => count + 1);
   };
 
   // Format the connection status
-  const getStatusClass = (status: SseConnectionStatus) => {
+  const getStatusClass = () => {
     switch (status) {
       case SseConnectionStatus.OPEN:
         return 'status-success';
@@ -69,6 +65,8 @@ export default function MultipleStreamsExample({ clientId, backendUrl, apiKey }:
         return 'status-warning';
       case SseConnectionStatus.ERROR:
         return 'status-error';
+      case SseConnectionStatus.OFFLINE:
+        return 'status-offline';
       default:
         return 'status-default';
     }
@@ -86,153 +84,102 @@ export default function MultipleStreamsExample({ clientId, backendUrl, apiKey }:
       }}>
         <h3>🎯 Purpose: Parallel Event Streams</h3>
         <p>
-          <strong>What this demonstrates:</strong> Managing multiple concurrent SSE connections, 
-          each filtering different event types. Shows how to organize complex real-time data flows.
+          <strong>What this demonstrates:</strong> Splitting a single SSE connection into independent streams, 
+          each receiving a different event type. Shows how to organize complex real-time data flows.
         </p>
         <p>
-          <strong>Key features:</strong> Multiple connections, independent stream management, organized event display
+          <strong>Key features:</strong> One connection, client-side subscriptions, organized event display
         </p>
         <p>
           <strong>Use this when:</strong> You need to separate concerns and handle different event types independently
         </p>
+        <p>
+          <strong>Cross-tab sharing:</strong> The connection uses <code>crossTab: true</code>, so opening this demo in
+          several tabs still uses one connection; the other tabs receive relayed events.
+        </p>
+      </div>
+
+      <div className="connection-status">
+        <span className={`status-indicator ${getStatusClass()}`}></span>
+        <span>Connection Status: <strong>{status}</strong></span>
       </div>
 
       <div className="controls">
         <button
-          onClick={connectAll}
-          disabled={
-            notificationStream.status === SseConnectionStatus.OPEN ||
-            alertStream.status === SseConnectionStatus.OPEN ||
-            updateStream.status === SseConnectionStatus.OPEN
-          }
+          onClick={connect}
+          disabled={status === SseConnectionStatus.OPEN || status === SseConnectionStatus.CONNECTING}
         >
-          Connect All Streams
+          Connect
         </button>
         <button
-          onClick={disconnectAll}
-          disabled={
-            notificationStream.status !== SseConnectionStatus.OPEN &&
-            alertStream.status !== SseConnectionStatus.OPEN &&
-            updateStream.status !== SseConnectionStatus.OPEN
-          }
+          onClick={disconnect}
+          disabled={status !== SseConnectionStatus.OPEN}
         >
-          Disconnect All
+          Disconnect
         </button>
         <button onClick={clearAll}>
           Clear All Events
         </button>
       </div>
 
-      <div className="streams-container">
-        <div className="stream-column">
-          <h3>Notifications</h3>
-          <div className="connection-status">
-            <span className={`status-indicator ${getStatusClass(notificationStream.status)}`}></span>
-            <span>Status: <strong>{notificationStream.status}</strong></span>
-          </div>
-          <div className="events-list">
-            {notificationStream.events.length === 0 ? (
-              <p className="no-events">No notifications yet.</p>
-            ) : (
-              <ul>
-                {notificationStream.events.map((event, index) => (
-                  <li key={index} className="event-item notification">
-                    <pre className="event-data">{event.data}</pre>
-                  </li>
-                ))}
-              </ul>
-            )}
-          </div>
-        </div>
-
-        <div className="stream-column">
-          <h3>Alerts</h3>
-          <div className="connection-status">
-            <span className={`status-indicator ${getStatusClass(alertStream.status)}`}></span>
-            <span>Status: <strong>{alertStream.status}</strong></span>
-          </div>
-          <div className="events-list">
-            {alertStream.events.length === 0 ? (
-              <p className="no-events">No alerts yet.</p>
-            ) : (
-              <ul>
-                {alertStream.events.map((event, index) => (
-                  <li key={index} className="event-item alert">
-                    <pre className="event-data">{event.data}</pre>
-                  </li>
-                ))}
-              </ul>
-            )}
-          </div>
-        </div>
-
-        <div className="stream-column">
-          <h3>Updates</h3>
-          <div className="connection-status">
-            <span className={`status-indicator ${getStatusClass(updateStream.status)}`}></span>
-            <span>Status: <strong>{updateStream.status}</strong></span>
-          </div>
-          <div className="events-list">
-            {updateStream.events.length === 0 ? (
-              <p className="no-events">No updates yet.</p>
-            ) : (
-              <ul>
-                {updateStream.events.map((event, index) => (
-                  <li key={index} className="event-item update">
-                    <pre className="event-data">{event.data}</pre>
-                  </li>
-                ))}
-              </ul>
-            )}
-          </div>
-        </div>
+      <div className="streams-container" key={clearCount}>
+        <StreamColumn
+          title="Notifications"
+          eventType={SseEventTypes.Notification}
+          itemClassName="notification"
+          emptyText="No notifications yet."
+        />
+        <StreamColumn
+          title="Alerts"
+          eventType={SseEventTypes.Alert}
+          itemClassName="alert"
+          emptyText="No alerts yet."
+        />
+        {/* Legacy filter name maps to dataUpdate */}
+        <StreamColumn
+          title="Updates"
+          eventType="update"
+          itemClassName="update"
+          emptyText="No updates yet."
+        />
       </div>
 
       <div className="code-example">
         <h3>Code Example</h3>
         <pre>
-{`import { useSse } from '../hooks/useSse.js';
+{`import SseProvider from '../components/SseProvider';
+import { useSseSubscription } from '../hooks/useSseSubscription';
 import { SseEventTypes } from '../models/sseEventTypes';
 
-function MultipleStreamsComponent() {
-  // Create separate connections for different event types
-  const notifications = useSse({
-    url: '/api/sse/connect',
-    clientId: 'client-notifications',
-    filter: SseEventTypes.Notification,
-    apiKey: 'your-api-key', // Optional
-  });
+// One connection for every event type, shared by the whole subtree
+function Dashboard() {
+  return (
+    <SseProvider
+      url="/api/sse/connect"
+      clientId="client-streams"
+      crossTab={true}         // Share one connection across browser tabs
+      apiKey="your-api-key"   // Optional
+    >
+      <StreamPanel title="Notifications" eventType={SseEventTypes.Notification} />
+      <StreamPanel title="Alerts" eventType={SseEventTypes.Alert} />
+      <StreamPanel title="Updates" eventType={SseEventTypes.DataUpdate} />
+    </SseProvider>
+  );
+}
 
-  const alerts = useSse({
-    url: '/api/sse/connect',
-    clientId: 'client-alerts',
-    filter: SseEventTypes.Alert,
-    apiKey: 'your-api-key', // Optional
-  });
+// Any nested component can subscribe to one stream, without props
+function StreamPanel({ title, eventType }) {
+  const [events, setEvents] = useState([]);
 
-  const updates = useSse({
-    url: '/api/sse/connect',
-    clientId: 'client-updates',
-    filter: SseEventTypes.DataUpdate,
-    apiKey: 'your-api-key', // Optional
+  // Subscribed once; re-renders and reconnects keep the subscription
+  useSseSubscription(eventType, (event) => {
+    setEvents(prev => [...prev, event]);
   });
 
   return (
-    <div className="dashboard">
-      <div className="notifications-panel">
-        <h3>Notifications ({notifications.events.length})</h3>
-        {/* Render notification events */}
-      </div>
-
-      <div className="alerts-panel">
-        <h3>Alerts ({alerts.events.length})</h3>
-        {/* Render alert events */}
-      </div>
-
-      <div className="updates-panel">
-        <h3>Updates ({updates.events.length})</h3>
-        {/* Render update events */}
-      </div>
+    <div className="stream-panel">
+      <h3>{title} ({events.length})</h3>
+      {/* Render events */}
     </div>
   );
 }`}
@@ -241,3 +188,33 @@ function MultipleStreamsComponent() {
     </div>
   );
 }
+
+/**
+ * One stream of the provider's connection, receiving events of a single type
+ */
+function StreamColumn({ title, eventType, itemClassName, emptyText }: StreamColumnProps) {
+  const [events, setEvents] = useState<SseEvent[]>([]);
+
+  useSseSubscription(eventType, (event) => {
+    setEvents(prev => [...prev, event].slice(-MAX_EVENTS_PER_STREAM));
+  }, []);
+
+  return (
+    <div className="stream-column">
+      <h3>{title}</h3>
+      <div className="events-list">
+        {events.length === 0 ? (
+          <p className="no-events">{emptyText}</p>
+        ) : (
+          <ul>
+            {events.map((event, index) => (
+              <li key={index} className={`event-item ${itemClassName}`}>
+                <pre className="event-data">{event.data}</pre>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,38 +1,60 @@
 import { useState, useEffect } from 'react';
 import { useSse } from '../../hooks/useSse';
+import { useSseStats } from '../../hooks/useSseStats';
 import { SseConnectionStatus } from '../../services/sseService';
+import { BackoffStrategies } from '../../services/backoff';
+import type { BackoffStrategyName } from '../../services/backoff';
+import type { SseReplay } from '../../services/replayEventSource';
 
 interface ReconnectionExampleProps {
   clientId: string;
   backendUrl: string;
   apiKey?: string;
+  replay?: SseReplay;
 }
 
 /**
  * Reconnection Example
  * Demonstrates automatic and manual reconnection strategies
  */
-export default function ReconnectionExample({ clientId, backendUrl, apiKey }: ReconnectionExampleProps) {
+export default function ReconnectionExample({ clientId, backendUrl, apiKey, replay }: ReconnectionExampleProps) {
   const [retryTimeout, setRetryTimeout] = useState(3000);
   const [maxRetries, setMaxRetries] = useState(5);
+  const [backoff, setBackoff] = useState<BackoffStrategyName>(BackoffStrategies.EXPONENTIAL);
+  const [maxRetryDelay, setMaxRetryDelay] = useState(30000);
+  const [now, setNow] = useState(() => Date.now());
   const [autoReconnect, setAutoReconnect] = useState(true);
+  const [useWatchdog, setUseWatchdog] = useState(true);
   const [connectionLogs, setConnectionLogs] = useState<string[]>([]);
   const [isConnected, setIsConnected] = useState(false);
 
   // Use the SSE hook with custom reconnection settings
-  const { status, connect: baseConnect, disconnect } = useSse({
+  const { status, nextRetryAt, connect: baseConnect, disconnect, sseClient } = useSse({
     url: backendUrl,
     clientId: `${clientId}-reconnect`,
     retryTimeout,
     maxRetryAttempts: maxRetries,
+    backoff,
+    maxRetryDelay,
     autoReconnect,
+    heartbeat: useWatchdog ? { interval: 30000, missedHeartbeats: 2 } : undefined,
     autoConnect: false,
     apiKey,
+    replay,
+    onStale: (silentFor) => {
+      addLog(`No heartbeat for ${Math.round(silentFor / 1000)}s - connection is stale, reconnecting from checkpoint`);
+    },
+    onRetryScheduled: ({ attempt, delay }) => {
+      addLog(`Reconnection attempt ${attempt} scheduled in ${delay}ms (${backoff} backoff)`);
+    },
   });
 
+  // Connection and throughput metrics, refreshed every second
+  const stats = useSseStats(sseClient);
+
   // Connect with current settings
   const connect = () => {
-    addLog(`Connecting with settings: retryTimeout=${retryTimeout}ms, maxRetries=${maxRetries}, autoReconnect=${autoReconnect}`);
+    addLog(`Connecting with settings: retryTimeout=${retryTimeout}ms, maxRetries=${maxRetries}, backoff=${backoff}, maxRetryDelay=${maxRetryDelay}ms, autoReconnect=${autoReconnect}`);
     baseConnect();
     setIsConnected(true);
   };
@@ -71,15 +93,29 @@ export default function ReconnectionExample({ clientId, backendUrl, apiKey }: Re
     addLog(`Connection status changed to: ${status}`);
   }, [status]);
 
+  // Tick while a reconnection attempt is pending to drive the countdown
+  useEffect(() => {
+    if (nextRetryAt === null) {
+      return;
+    }
+
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 100);
+    return () => window.clearInterval(timer);
+  }, [nextRetryAt]);
+
   // Format the connection status
   const getStatusClass = () => {
     switch (status) {
       case SseConnectionStatus.OPEN:
         return 'status-success';
       case SseConnectionStatus.CONNECTING:
+      case SseConnectionStatus.STALE:
         return 'status-warning';
       case SseConnectionStatus.ERROR:
         return 'status-error';
+      case SseConnectionStatus.OFFLINE:
+        return 'status-offline';
       default:
         return 'status-default';
     }
@@ -111,6 +147,11 @@ export default function ReconnectionExample({ clientId, backendUrl, apiKey }: Re
       <div className="connection-status">
         <span className={`status-indicator ${getStatusClass()}`}></span>
         <span>Connection Status: <strong>{status}</strong></span>
+        {nextRetryAt !== null && (
+          <span className="retry-countdown">
+            {' '}— next attempt in <strong>{(Math.max(nextRetryAt - now, 0) / 1000).toFixed(1)}s</strong>
+          </span>
+        )}
       </div>
 
       <div className="reconnection-settings">
@@ -143,6 +184,34 @@ export default function ReconnectionExample({ clientId, backendUrl, apiKey }: Re
             />
           </div>
 
+          <div className="form-group">
+            <label htmlFor="backoff-strategy">Backoff Strategy:</label>
+            <select
+              id="backoff-strategy"
+              value={backoff}
+              onChange={(e) => setBackoff(e.target.value as BackoffStrategyName)}
+              disabled={isConnected}
+            >
+              <option value={BackoffStrategies.FIXED}>Fixed</option>
+              <option value={BackoffStrategies.EXPONENTIAL}>Exponential</option>
+              <option value={BackoffStrategies.DECORRELATED_JITTER}>Decorrelated Jitter</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="max-retry-delay">Max Retry Delay (ms):</label>
+            <input
+              id="max-retry-delay"
+              type="number"
+              min="1000"
+              max="60000"
+              step="1000"
+              value={maxRetryDelay}
+              onChange={(e) => setMaxRetryDelay(Number(e.target.value))}
+              disabled={isConnected}
+            />
+          </div>
+
           <div className="form-group">
             <label htmlFor="auto-reconnect">Auto Reconnect:</label>
             <input
@@ -153,6 +222,17 @@ export default function ReconnectionExample({ clientId, backendUrl, apiKey }: Re
               disabled={isConnected}
             />
           </div>
+
+          <div className="form-group">
+            <label htmlFor="heartbeat-watchdog">Heartbeat Watchdog:</label>
+            <input
+              id="heartbeat-watchdog"
+              type="checkbox"
+              checked={useWatchdog}
+              onChange={(e) => setUseWatchdog(e.target.checked)}
+              disabled={isConnected}
+            />
+          </div>
         </div>
       </div>
 
@@ -180,6 +260,21 @@ export default function ReconnectionExample({ clientId, backendUrl, apiKey }: Re
         </button>
       </div>
 
+      {stats && (
+        <div className="reconnection-settings">
+          <h3>Connection Stats</h3>
+          <ul className="logs-list">
+            <li className="log-entry">Uptime: {(stats.uptime / 1000).toFixed(0)}s · Reconnects: {stats.reconnects} · Last connect time: {stats.connectTime ?? '-'}ms</li>
+            <li className="log-entry">Events: {stats.events} ({(stats.bytes / 1024).toFixed(1)} KB) · Parse failures: {stats.parseFailures}</li>
+            <li className="log-entry">Last minute: {stats.windows.oneMinute.events} events ({stats.windows.oneMinute.eventsPerSecond.toFixed(2)}/s), {stats.windows.oneMinute.reconnects} reconnects</li>
+            <li className="log-entry">Last 5 minutes: {stats.windows.fiveMinutes.events} events, average latency {stats.windows.fiveMinutes.averageLatency?.toFixed(0) ?? '-'}ms</li>
+            {Object.entries(stats.eventsByType).map(([type, typeStats]) => (
+              <li key={type} className="log-entry">{type}: {typeStats.events} events, {typeStats.bytes} bytes</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="connection-logs">
         <h3>Connection Logs</h3>
         <div className="logs-container">
@@ -199,21 +294,33 @@ export default function ReconnectionExample({ clientId, backendUrl, apiKey }: Re
         <h3>Code Example</h3>
         <pre>
 {`import { useSse } from '../hooks/useSse.js';
+import { useSseStats } from '../hooks/useSseStats.js';
 
 function ReconnectionComponent() {
-  const { status, events, connect, disconnect } = useSse({
+  const { status, nextRetryAt, connect, disconnect, sseClient } = useSse({
     url: '/api/sse/connect',
     clientId: 'my-client-id',
-    retryTimeout: 3000,       // Retry after 3 seconds
+    retryTimeout: 3000,       // Base delay of 3 seconds
+    backoff: 'exponential',   // 'fixed' | 'exponential' | 'decorrelated-jitter'
+    maxRetryDelay: 30000,     // Never wait more than 30 seconds
     maxRetryAttempts: 5,      // Try up to 5 times
     autoReconnect: true,      // Automatically reconnect
+    heartbeat: {              // Reconnect if two heartbeats are missed
+      interval: 30000,
+      missedHeartbeats: 2,
+    },
     autoConnect: true,        // Connect when component mounts
     apiKey: 'your-api-key',   // Optional
   });
 
+  // Uptime, reconnects, throughput and latency, with 1- and 5-minute windows
+  const stats = useSseStats(sseClient);
+
   return (
     <div>
       <p>Status: {status}</p>
+      {nextRetryAt && <p>Retrying at {new Date(nextRetryAt).toLocaleTimeString()}</p>}
+      {stats && <p>Reconnects: {stats.reconnects}, last minute: {stats.windows.oneMinute.events} events</p>}
       <button onClick={disconnect}>Disconnect</button>
       <button onClick={connect}>Reconnect</button>
     </div>
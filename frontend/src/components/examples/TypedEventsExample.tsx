@@ -1,27 +1,34 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useSseTyped } from '../../hooks/useSseTyped';
 import { SseConnectionStatus } from '../../services/sseService';
-import { NotificationPayload, DataUpdatePayload } from '../../models/sseMessages';
+import { NotificationPayload, DataUpdatePayload, AlertPayload } from '../../models/sseMessages';
+import { sseEventRegistry } from '../../models/sseEventRegistry';
+import type { SseReplay } from '../../services/replayEventSource';
 
 interface TypedEventsExampleProps {
   clientId: string;
   backendUrl: string;
   apiKey?: string;
+  replay?: SseReplay;
 }
 
 /**
  * Typed SSE events example component
  * Demonstrates using SSE with typed events and schema validation
  */
-export default function TypedEventsExample({ clientId, backendUrl, apiKey }: TypedEventsExampleProps) {
+export default function TypedEventsExample({ clientId, backendUrl, apiKey, replay }: TypedEventsExampleProps) {
   const [lastNotification, setLastNotification] = useState<NotificationPayload | null>(null);
   const [lastDataUpdate, setLastDataUpdate] = useState<DataUpdatePayload | null>(null);
+  const [lastAlert, setLastAlert] = useState<AlertPayload | null>(null);
   
   // Use the typed SSE hook
   const { 
     status, 
     notifications, 
     dataUpdates, 
+    eventsByType,
+    quarantinedEvents,
+    on,
     connect, 
     disconnect, 
     clearEvents 
@@ -30,6 +37,8 @@ export default function TypedEventsExample({ clientId, backendUrl, apiKey }: Typ
     clientId,
     autoConnect: true,
     apiKey,
+    replay,
+    strict: true,
     onNotification: (notification) => {
       console.log('Notification received:', notification);
       setLastNotification(notification);
@@ -40,6 +49,12 @@ export default function TypedEventsExample({ clientId, backendUrl, apiKey }: Typ
     }
   });
 
+  // Typed handler for alert events
+  useEffect(() => on('alert', (alert) => setLastAlert(alert)), [on]);
+
+  // Read on every render; each received event re-renders the component
+  const validationStats = Object.entries(sseEventRegistry.getValidationStats());
+
   // Format the connection status
   const getStatusClass = () => {
     switch (status) {
@@ -49,6 +64,8 @@ export default function TypedEventsExample({ clientId, backendUrl, apiKey }: Typ
         return 'status-warning';
       case SseConnectionStatus.ERROR:
         return 'status-error';
+      case SseConnectionStatus.OFFLINE:
+        return 'status-offline';
       default:
         return 'status-default';
     }
@@ -141,6 +158,42 @@ export default function TypedEventsExample({ clientId, backendUrl, apiKey }: Typ
             <p className="no-events">No data updates received yet.</p>
           )}
         </div>
+
+        <div className="latest-notification">
+          <h4>Latest Alert ({eventsByType.alert.length} total)</h4>
+          {lastAlert ? (
+            <div className="notification severity-error">
+              <div className="notification-header">
+                <span className="notification-severity">{lastAlert.severity} · {lastAlert.category}</span>
+                <span className="notification-time">{new Date(lastAlert.timestamp).toLocaleTimeString()}</span>
+              </div>
+              <div className="notification-message">{lastAlert.message}</div>
+            </div>
+          ) : (
+            <p className="no-events">No alerts received yet.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="latest-events">
+        <h3>Schema Conformance</h3>
+        {validationStats.length === 0 ? (
+          <p className="no-events">No events validated yet.</p>
+        ) : (
+          <ul className="events-list">
+            {validationStats.map(([type, stats]) => (
+              <li key={type} className={`event-item ${stats.failed > 0 ? 'severity-warning' : ''}`}>
+                <span className="event-type">{type}</span>: {stats.passed} passed, {stats.failed} failed
+              </li>
+            ))}
+          </ul>
+        )}
+        {quarantinedEvents.length > 0 && (
+          <p>
+            <strong>Quarantined ({quarantinedEvents.length}):</strong>{' '}
+            {quarantinedEvents[quarantinedEvents.length - 1].message}
+          </p>
+        )}
       </div>
 
       <div className="events-lists">
@@ -191,6 +244,18 @@ export default function TypedEventsExample({ clientId, backendUrl, apiKey }: Typ
         <pre>
 {`import { useSseTyped } from '../hooks/useSseTyped';
 import { NotificationPayload, DataUpdatePayload } from '../models/sseMessages';
+import { BaseEventSchema, BuiltInEvents } from '../models/sseSchemas';
+import { defineEvent } from '../models/sseEventRegistry';
+
+// Register your own event types once; SseClient listens for them automatically
+const OrderShippedEvent = defineEvent('orderShipped', BaseEventSchema.extend({
+  type: z.literal('orderShipped'),
+  orderId: z.string()
+}), {
+  version: '2.0',
+  // 1.x payloads had a numeric id; upcast them to the 2.0 shape
+  upcasters: { 1: (v1) => ({ ...v1, orderId: String(v1.id) }) }
+});
 
 function MyComponent() {
   const [lastNotification, setLastNotification] = useState<NotificationPayload | null>(null);
@@ -199,12 +264,19 @@ function MyComponent() {
   const { 
     status, 
     notifications, 
-    dataUpdates 
+    dataUpdates,
+    eventsByType,   // { notification: [...], dataUpdate: [...], alert: [...], heartbeat: [...], orderShipped: [...] }
+    quarantinedEvents, // Invalid events kept out of the typed state in strict mode
+    on
   } = useSseTyped({
     url: 'http://sse-demo.local/api/sse/connect',
     clientId: 'my-client-id',
     autoConnect: true,
     apiKey: 'your-api-key', // Optional
+    events: [...BuiltInEvents, OrderShippedEvent],
+    onVersionError: (error) => console.error(error.message), // e.g. a 3.0 payload
+    strict: true,
+    onValidationError: (error) => console.warn(error.eventType, error.issues),
     onNotification: (notification) => {
       console.log('Notification received:', notification);
       setLastNotification(notification);
@@ -215,6 +287,12 @@ function MyComponent() {
     }
   });
 
+  // Payloads are typed from their schemas
+  useEffect(() => on('orderShipped', (order) => console.log('Shipped', order.orderId)), [on]);
+
+  // Per-type pass/fail counters, to spot schema drift
+  console.log(sseEventRegistry.getValidationStats()); // { notification: { passed: 12, failed: 0 }, ... }
+
   return (
     <div>
       <p>Status: {status}</p>
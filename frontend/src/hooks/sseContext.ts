@@ -0,0 +1,40 @@
+import { createContext, useContext } from 'react';
+import type { SseClient, SseConnectionStatus } from '../services/sseService';
+import type { SseSubscriptionManager } from '../services/sseSubscriptionManager';
+
+/**
+ * Value provided by SseProvider
+ */
+export interface SseContextValue {
+  /** Client owned by the provider; replaced when its options change */
+  client: SseClient;
+
+  /** Current connection status */
+  status: SseConnectionStatus;
+
+  /** Routes the client's events to the subscriptions of useSseSubscription */
+  subscriptions: SseSubscriptionManager;
+
+  /** Connect to the SSE endpoint */
+  connect: () => void;
+
+  /** Disconnect from the SSE endpoint */
+  disconnect: () => void;
+}
+
+/**
+ * Context holding the SSE client of the nearest SseProvider
+ */
+export const SseContext = createContext<SseContextValue | null>(null);
+
+/**
+ * Gets the SSE client and status of the nearest SseProvider
+ * @throws Error when used outside an SseProvider
+ */
+export function useSseContext(): SseContextValue {
+  const context = useContext(SseContext);
+  if (!context) {
+    throw new Error('useSseContext must be used within an SseProvider');
+  }
+  return context;
+}
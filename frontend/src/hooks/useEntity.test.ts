@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useEntities, useEntity } from './useEntity';
+import { SseEntityStore } from '../services/sseEntityStore';
+import type { SseEntityCollection } from '../services/sseEntityStore';
+
+type Order = { status: string };
+
+describe('useEntity', () => {
+  it('re-renders only when its entity changes', () => {
+    const store = new SseEntityStore();
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useEntity<Order>('order', '1', store);
+    });
+    expect(result.current).toBeUndefined();
+
+    act(() => store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'new' } }));
+    act(() => store.applyUpdate({ entityType: 'order', entityId: '2', changes: { status: 'new' } }));
+    expect(result.current).toEqual({ status: 'new' });
+    expect(renders).toBe(2);
+
+    act(() => store.evict('order', '1'));
+    expect(result.current).toBeUndefined();
+  });
+});
+
+describe('useEntities', () => {
+  it('re-renders only when the selected value changes', () => {
+    const store = new SseEntityStore();
+    store.seed<Order>('order', { 1: { status: 'new' }, 2: { status: 'paid' } });
+    const selectNew = (orders: SseEntityCollection<Order>) => Object.values(orders).filter(order => order.status === 'new');
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useEntities('order', selectNew, store);
+    });
+    expect(result.current).toEqual([{ status: 'new' }]);
+
+    act(() => store.applyUpdate({ entityType: 'order', entityId: '2', changes: { status: 'shipped' } }));
+    expect(renders).toBe(1);
+
+    act(() => store.applyUpdate({ entityType: 'order', entityId: '3', changes: { status: 'new' } }));
+    expect(result.current).toEqual([{ status: 'new' }, { status: 'new' }]);
+    expect(renders).toBe(2);
+  });
+
+  it('returns the entities by ID without a selector', () => {
+    const store = new SseEntityStore();
+    const { result } = renderHook(() => useEntities<Order>('order', undefined, store));
+
+    act(() => store.seed<Order>('order', { 1: { status: 'new' } }));
+
+    expect(result.current).toEqual({ 1: { status: 'new' } });
+  });
+});
@@ -0,0 +1,90 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import { sseEntityStore } from '../services/sseEntityStore';
+import type { SseEntity, SseEntityCollection, SseEntityStore } from '../services/sseEntityStore';
+
+/**
+ * Custom hook for reading one entity of an entity store
+ * The component re-renders only when that entity changes or is evicted.
+ * @param entityType Entity type
+ * @param id Entity ID
+ * @param store Entity store (default: the shared store)
+ * @returns The entity, or undefined while the store doesn't hold it
+ */
+export function useEntity<T extends SseEntity = SseEntity>(
+  entityType: string,
+  id: string,
+  store: SseEntityStore = sseEntityStore
+): T | undefined {
+  const subscribe = useCallback(
+    (listener: () => void) => store.subscribeEntity(entityType, id, listener),
+    [store, entityType, id]
+  );
+
+  return useSyncExternalStore(subscribe, () => store.getEntity<T>(entityType, id));
+}
+
+/**
+ * Custom hook for selecting from the entities of one type
+ * The selector runs when an entity of the type changes, and the component re-renders only
+ * when its result changes. Arrays and plain objects are compared by their items, so selectors
+ * such as entities => Object.values(entities).filter(...) don't re-render for unrelated entities.
+ * @param entityType Entity type
+ * @param selector Function deriving a value from the entities by ID
+ * @param store Entity store (default: the shared store)
+ * @returns The selected value
+ */
+export function useEntities<T extends SseEntity = SseEntity, TSelected = SseEntityCollection<T>>(
+  entityType: string,
+  selector: (entities: SseEntityCollection<T>) => TSelected = (entities) => entities as TSelected,
+  store: SseEntityStore = sseEntityStore
+): TSelected {
+  const selectionRef = useRef<{ entities: SseEntityCollection<T>; selector: typeof selector; selected: TSelected } | null>(null);
+
+  const subscribe = useCallback(
+    (listener: () => void) => store.subscribeEntities(entityType, listener),
+    [store, entityType]
+  );
+
+  const getSelection = () => {
+    const entities = store.getEntities<T>(entityType);
+    const previous = selectionRef.current;
+    if (previous && previous.entities === entities && previous.selector === selector) {
+      return previous.selected;
+    }
+
+    // Keep the previous result when it has the same items, so the component doesn't re-render
+    const next = selector(entities);
+    const selected = previous && isShallowEqual(previous.selected, next) ? previous.selected : next;
+    selectionRef.current = { entities, selector, selected };
+    return selected;
+  };
+
+  return useSyncExternalStore(subscribe, getSelection);
+}
+
+/**
+ * Compares arrays and plain objects by their items, and anything else by identity
+ */
+function isShallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => Object.is(value, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && Object.is(a[key], b[key]));
+  }
+
+  return false;
+}
+
+/**
+ * Whether a value is an object literal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useSse, useSseEvents } from './useSse';
+import { SseConnectionStatus } from '../services/sseService';
+import type { SseClient } from '../services/sseService';
+import { MemoryCheckpointStore } from '../services/checkpointStore';
+import { FakeEventSource } from '../test/fakeEventSource';
+
+/**
+ * Waits until the hook's client has opened its event source
+ */
+async function waitForEventSource(): Promise<FakeEventSource> {
+  await waitFor(() => expect(FakeEventSource.instances).toHaveLength(1));
+  return FakeEventSource.latest();
+}
+
+const options = {
+  url: '/api/sse/connect',
+  clientId: 'test-client',
+  checkpointStore: new MemoryCheckpointStore(),
+};
+
+describe('useSse', () => {
+  it('follows the connection status', async () => {
+    const { result } = renderHook(() => useSse(options));
+    const source = await waitForEventSource();
+
+    act(() => source.open());
+    expect(result.current.status).toBe(SseConnectionStatus.OPEN);
+
+    act(() => result.current.disconnect());
+    expect(result.current.status).toBe(SseConnectionStatus.CLOSED);
+    expect(source.closed).toBe(true);
+  });
+
+  it('collects received events up to maxEvents', async () => {
+    const { result } = renderHook(() => useSse({ ...options, maxEvents: 2 }));
+    const source = await waitForEventSource();
+
+    act(() => {
+      source.open();
+      source.message({ messageId: 'a' });
+      source.message({ messageId: 'b' });
+      source.message({ messageId: 'c' });
+    });
+
+    expect(result.current.events.map(event => JSON.parse(event.data).messageId)).toEqual(['b', 'c']);
+    expect(result.current.lastEvent?.data).toBe(JSON.stringify({ messageId: 'c' }));
+
+    act(() => result.current.clearEvents());
+    expect(result.current.events).toEqual([]);
+    expect(result.current.lastEvent).toBeNull();
+  });
+
+  it('closes the client on unmount', async () => {
+    const { unmount } = renderHook(() => useSse(options));
+    const source = await waitForEventSource();
+
+    unmount();
+
+    expect(source.closed).toBe(true);
+  });
+
+  it('returns the client from the first render', () => {
+    const clients: SseClient[] = [];
+    renderHook(() => {
+      const { sseClient } = useSse({ ...options, autoConnect: false });
+      clients.push(sseClient);
+    });
+
+    expect(clients[0]).not.toBeNull();
+    expect(new Set(clients).size).toBe(1);
+  });
+
+  it('replaces and reconnects the client when an option changes', async () => {
+    const { result, rerender } = renderHook(
+      ({ retryTimeout }) => useSse({ ...options, retryTimeout }),
+      { initialProps: { retryTimeout: 3000 } }
+    );
+    const source = await waitForEventSource();
+    const client = result.current.sseClient;
+
+    rerender({ retryTimeout: 1000 });
+
+    expect(source.closed).toBe(true);
+    expect(result.current.sseClient).not.toBe(client);
+    await waitFor(() => expect(FakeEventSource.instances).toHaveLength(2));
+  });
+
+  it('keeps the client when inline options are equal', async () => {
+    const { result, rerender } = renderHook(() => useSse({ ...options, heartbeat: { interval: 30000 } }));
+    await waitForEventSource();
+    const client = result.current.sseClient;
+
+    rerender();
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(result.current.sseClient).toBe(client);
+  });
+
+  it('keeps the client when inline functions and instances are passed', async () => {
+    const { result, rerender } = renderHook(() => useSse({
+      ...options,
+      backoff: (attempt: number) => attempt * 100,
+      checkpointStore: new MemoryCheckpointStore(),
+    }));
+    await waitForEventSource();
+    const client = result.current.sseClient;
+
+    rerender();
+    rerender();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(result.current.sseClient).toBe(client);
+  });
+
+  it('keeps a disconnected client closed when an option changes', async () => {
+    const { result, rerender } = renderHook(
+      ({ useCheckpoint }) => useSse({ ...options, useCheckpoint }),
+      { initialProps: { useCheckpoint: true } }
+    );
+    await waitForEventSource();
+    const client = result.current.sseClient;
+
+    act(() => result.current.disconnect());
+    rerender({ useCheckpoint: false });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(result.current.sseClient).not.toBe(client);
+    expect(result.current.status).toBe(SseConnectionStatus.CLOSED);
+    expect(FakeEventSource.instances).toHaveLength(1);
+
+    act(() => result.current.connect());
+    await waitFor(() => expect(FakeEventSource.instances).toHaveLength(2));
+  });
+
+  it('calls the handlers of the latest render', async () => {
+    const handler = vi.fn();
+    const { rerender } = renderHook(
+      ({ label }) => useSse({ ...options, onEvent: { notification: (data) => handler(label, data.messageId) } }),
+      { initialProps: { label: 'first' } }
+    );
+    const source = await waitForEventSource();
+
+    rerender({ label: 'second' });
+    act(() => source.emit('notification', { type: 'notification', messageId: 'a' }));
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(handler).toHaveBeenCalledWith('second', 'a');
+  });
+});
+
+describe('useSseEvents', () => {
+  it('collects the events of each requested type separately', async () => {
+    const { result } = renderHook(() => useSseEvents(options, ['notification', 'dataUpdate']));
+    const source = await waitForEventSource();
+
+    act(() => {
+      source.emit('notification', { type: 'notification', messageId: 'a' });
+      source.emit('dataUpdate', { type: 'dataUpdate', messageId: 'b' });
+      source.emit('alert', { type: 'alert', messageId: 'c' });
+      source.message({ type: 'notification', messageId: 'd' });
+    });
+
+    expect(result.current.notification.map(event => event.messageId)).toEqual(['a', 'd']);
+    expect(result.current.dataUpdate.map(event => event.messageId)).toEqual(['b']);
+    expect(result.current.alert).toBeUndefined();
+  });
+});
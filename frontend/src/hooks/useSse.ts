@@ -1,18 +1,15 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
-import { SseClient, SseConnectionStatus } from '../services/sseService';
-import type { SseOptions, SseEvent } from '../services/sseService';
+import { useCallback, useLayoutEffect, useState, useSyncExternalStore } from 'react';
+import type { SseClient, SseConnectionStatus, SseEvent } from '../services/sseService';
+import { SseStore } from '../services/sseStore';
+import type { SseStoreOptions } from '../services/sseStore';
+import { createLogger } from '../services/logger';
+
+const defaultLogger = createLogger('sse:hooks');
 
 /**
  * Hook options for useSse
  */
-export interface UseSseOptions extends Omit<SseOptions, 'onOpen' | 'onClose' | 'onError' | 'onMessage'> {
-  /** Whether to connect immediately (default: true) */
-  autoConnect?: boolean;
-  /** Maximum number of events to store (default: 100) */
-  maxEvents?: number;
-  /** Whether to auto-clear old events when max is reached (default: true) */
-  autoClearOldEvents?: boolean;
-}
+export type UseSseOptions = Omit<SseStoreOptions, 'onOpen' | 'onClose' | 'onError' | 'onMessage'>;
 
 /**
  * Hook return type for useSse
@@ -36,143 +33,44 @@ export interface UseSseReturn {
   /** Clear the events array */
   clearEvents: () => void;
 
-  /** SSE client instance for advanced operations */
-  sseClient: SseClient | null;
+  /** Time of the next scheduled reconnection attempt (milliseconds since the epoch), if any */
+  nextRetryAt: number | null;
+
+  /** SSE client instance for advanced operations; replaced when the options change */
+  sseClient: SseClient;
 }
 
 /**
  * Custom hook for using Server-Sent Events in React components
+ * The client lives in an SseStore read through useSyncExternalStore. Callbacks are always
+ * called from the latest render; changing any other option replaces the client, which
+ * reconnects unless the hook was disconnected.
  * @param options SSE connection options
  * @returns Hook state and methods
  */
 export function useSse(options: UseSseOptions): UseSseReturn {
-  const [status, setStatus] = useState<SseConnectionStatus>(SseConnectionStatus.CLOSED);
-  const [lastEvent, setLastEvent] = useState<SseEvent | null>(null);
-  const [events, setEvents] = useState<SseEvent[]>([]);
-  const clientRef = useRef<SseClient | null>(null);
-
-  // Track processed event IDs to avoid duplicates
-  const processedEventIds = useRef<Set<string>>(new Set());
-
-  // Maximum number of event IDs to track (to prevent memory leaks)
-  const MAX_TRACKED_EVENT_IDS = 1000;
-  
-  // Maximum number of events to store
-  const maxEvents = options.maxEvents ?? 100;
-  const autoClearOldEvents = options.autoClearOldEvents ?? true;
-
-  // Create the SSE client
-  useEffect(() => {
-    const sseOptions: SseOptions = {
-      ...options,
-      onOpen: () => setStatus(SseConnectionStatus.OPEN),
-      onClose: () => setStatus(SseConnectionStatus.CLOSED),
-      onError: () => setStatus(SseConnectionStatus.ERROR),
-      onMessage: (event) => {
-        // Try to extract messageId from the event data
-        let messageId = null;
-        try {
-          const data = JSON.parse(event.data);
-          messageId = data.messageId;
-        } catch (e) {
-          // Not JSON or no messageId, continue without ID tracking
-        }
-
-        // Check if we've already processed this event
-        if (messageId && processedEventIds.current.has(messageId)) {
-          console.log(`Skipping duplicate event with ID: ${messageId}`);
-          return;
-        }
-
-        // Update the last event
-        setLastEvent(event);
+  const [store] = useState(() => new SseStore(options));
+  const { status, lastEvent, events, nextRetryAt, client } = useSyncExternalStore(store.subscribe, store.getSnapshot);
 
-        // Add to events array with automatic cleanup
-        setEvents(prev => {
-          const newEvents = [...prev, event];
-          
-          // If we've exceeded the max events, remove old ones
-          if (autoClearOldEvents && newEvents.length > maxEvents) {
-            // Keep only the most recent events
-            const eventsToKeep = newEvents.slice(-maxEvents);
-            
-            // Update processed event IDs to match
-            const keptEventIds = new Set<string>();
-            eventsToKeep.forEach(evt => {
-              try {
-                const data = JSON.parse(evt.data);
-                if (data.messageId) {
-                  keptEventIds.add(data.messageId);
-                }
-              } catch (e) {
-                // Not JSON or no messageId
-              }
-            });
-            
-            // Update the processed IDs to only include kept events
-            processedEventIds.current = new Set(
-              Array.from(processedEventIds.current).filter(id => keptEventIds.has(id))
-            );
-            
-            return eventsToKeep;
-          }
-          
-          return newEvents;
-        });
-
-        // Track this event ID to avoid duplicates
-        if (messageId) {
-          processedEventIds.current.add(messageId);
-
-          // Clean up old event IDs if we're tracking too many
-          if (processedEventIds.current.size > MAX_TRACKED_EVENT_IDS) {
-            // Convert to array, remove oldest 20% of IDs, and convert back to Set
-            const idsArray = Array.from(processedEventIds.current);
-            const itemsToRemove = Math.floor(MAX_TRACKED_EVENT_IDS * 0.2);
-            const newIds = new Set(idsArray.slice(itemsToRemove));
-            processedEventIds.current = newIds;
-          }
-        }
-      },
-    };
-
-    clientRef.current = new SseClient(sseOptions);
-
-    // Connect immediately if autoConnect is true
-    if (options.autoConnect !== false) {
-      clientRef.current.connect();
-    }
-
-    // Clean up on unmount
-    return () => {
-      if (clientRef.current) {
-        clientRef.current.close();
-      }
-    };
-  }, [options.url, options.clientId, options.filter]); // Re-create client when these options change
+  // Hand the store every render's options, before the client connects or receives events
+  useLayoutEffect(() => {
+    store.setOptions(options);
+  });
 
   // Connect method
   const connect = useCallback(() => {
-    if (clientRef.current) {
-      clientRef.current.connect();
-    }
-  }, []);
+    store.connect();
+  }, [store]);
 
   // Disconnect method
   const disconnect = useCallback(() => {
-    if (clientRef.current) {
-      clientRef.current.close();
-    }
-  }, []);
+    store.disconnect();
+  }, [store]);
 
   // Clear events method
   const clearEvents = useCallback(() => {
-    setEvents([]);
-    setLastEvent(null);
-
-    // Clear the processed event IDs
-    processedEventIds.current.clear();
-  }, []);
+    store.clearEvents();
+  }, [store]);
 
   return {
     status,
@@ -181,7 +79,8 @@ export function useSse(options: UseSseOptions): UseSseReturn {
     connect,
     disconnect,
     clearEvents,
-    sseClient: clientRef.current,
+    nextRetryAt,
+    sseClient: client,
   };
 }
 
@@ -195,12 +94,6 @@ export function useSseEvents<T extends Record<string, any>>(
   options: UseSseOptions,
   eventTypes: string[]
 ): UseSseReturn & Record<string, T[]> {
-  // Track processed event IDs to avoid duplicates
-  const processedEventIds = useRef<Set<string>>(new Set());
-
-  // Maximum number of event IDs to track (to prevent memory leaks)
-  const MAX_TRACKED_EVENT_IDS = 1000;
-  
   // Maximum number of events to store per type
   const maxEventsPerType = options.maxEvents ?? 100;
   const autoClearOldEvents = options.autoClearOldEvents ?? true;
@@ -231,11 +124,6 @@ export function useSseEvents<T extends Record<string, any>>(
           return;
         }
 
-        // Check if we've already processed this event
-        if (parsedData.messageId && processedEventIds.current.has(parsedData.messageId)) {
-          return;
-        }
-
         // Process it as a typed event
         setEventData(prev => {
           let typeEvents = [...(prev[parsedData.type] || []), parsedData];
@@ -245,30 +133,14 @@ export function useSseEvents<T extends Record<string, any>>(
             typeEvents = typeEvents.slice(-maxEventsPerType);
           }
           
-          const newData = {
+          return {
             ...prev,
             [parsedData.type]: typeEvents,
           };
-
-          // Track this event ID to avoid duplicates
-          if (parsedData.messageId) {
-            processedEventIds.current.add(parsedData.messageId);
-
-            // Clean up old event IDs if we're tracking too many
-            if (processedEventIds.current.size > MAX_TRACKED_EVENT_IDS) {
-              // Convert to array, remove oldest 20% of IDs, and convert back to Set
-              const idsArray = Array.from(processedEventIds.current);
-              const itemsToRemove = Math.floor(MAX_TRACKED_EVENT_IDS * 0.2);
-              const newIds = new Set(idsArray.slice(itemsToRemove));
-              processedEventIds.current = newIds;
-            }
-          }
-
-          return newData;
         });
       }
     } catch (error) {
-      console.error('Error processing message event:', error);
+      (options.logger ?? defaultLogger).error('Error processing message event:', error);
     }
   };
 
@@ -278,12 +150,6 @@ export function useSseEvents<T extends Record<string, any>>(
     if (type === 'message') return;
     
     onEvent[type] = (data: T) => {
-      // Check if we've already processed this event
-      const eventId = (data as any).messageId;
-      if (eventId && processedEventIds.current.has(eventId)) {
-        return;
-      }
-
       setEventData(prev => {
         let typeEvents = [...(prev[type] || []), data];
         
@@ -292,26 +158,10 @@ export function useSseEvents<T extends Record<string, any>>(
           typeEvents = typeEvents.slice(-maxEventsPerType);
         }
         
-        const newData = {
+        return {
           ...prev,
           [type]: typeEvents,
         };
-
-        // Track this event ID to avoid duplicates
-        if (eventId) {
-          processedEventIds.current.add(eventId);
-
-          // Clean up old event IDs if we're tracking too many
-          if (processedEventIds.current.size > MAX_TRACKED_EVENT_IDS) {
-            // Convert to array, remove oldest 20% of IDs, and convert back to Set
-            const idsArray = Array.from(processedEventIds.current);
-            const itemsToRemove = Math.floor(MAX_TRACKED_EVENT_IDS * 0.2);
-            const newIds = new Set(idsArray.slice(itemsToRemove));
-            processedEventIds.current = newIds;
-          }
-        }
-
-        return newData;
       });
     };
   });
@@ -334,9 +184,6 @@ export function useSseEvents<T extends Record<string, any>>(
       });
       return newData;
     });
-
-    // Clear the processed event IDs
-    processedEventIds.current.clear();
   }, [sseHook.clearEvents]);
 
   // Create the return object with the correct type
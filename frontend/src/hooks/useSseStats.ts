@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import type { SseClient } from '../services/sseService';
+import type { SseStats } from '../services/sseStats';
+
+/**
+ * Custom hook for reading the metrics of an SSE client
+ * The stats are refreshed on an interval, since the rolling windows change even when no events arrive.
+ * @param client SSE client, e.g. the sseClient returned by useSse
+ * @param refreshInterval Refresh interval in milliseconds (default: 1000)
+ * @returns The latest stats, or null until a client is available
+ */
+export function useSseStats(client: SseClient | null, refreshInterval = 1000): SseStats | null {
+  const [stats, setStats] = useState<SseStats | null>(() => client?.getStats() ?? null);
+
+  useEffect(() => {
+    if (!client) {
+      setStats(null);
+      return;
+    }
+
+    setStats(client.getStats());
+    const timer = window.setInterval(() => setStats(client.getStats()), refreshInterval);
+
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [client, refreshInterval]);
+
+  return stats;
+}
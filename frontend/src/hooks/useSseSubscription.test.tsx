@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, render, renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import SseProvider from '../components/SseProvider';
+import { useSseContext } from './sseContext';
+import { useSseSubscription } from './useSseSubscription';
+import type { SseContextValue } from './sseContext';
+import { SseConnectionStatus } from '../services/sseService';
+import type { SseEvent } from '../services/sseService';
+import { MemoryCheckpointStore } from '../services/checkpointStore';
+import { FakeEventSource } from '../test/fakeEventSource';
+
+/**
+ * Wraps a hook in a provider connecting to a FakeEventSource
+ */
+function createWrapper(props: { retryTimeout?: number } = {}) {
+  const checkpointStore = new MemoryCheckpointStore();
+  return ({ children }: { children: ReactNode }) => (
+    <SseProvider url="/api/sse/connect" clientId="test-client" checkpointStore={checkpointStore} {...props}>
+      {children}
+    </SseProvider>
+  );
+}
+
+/**
+ * Waits until the provider's client has opened its nth event source
+ */
+async function waitForEventSource(count = 1): Promise<FakeEventSource> {
+  await waitFor(() => expect(FakeEventSource.instances).toHaveLength(count));
+  return FakeEventSource.latest();
+}
+
+/**
+ * Renders useSseSubscription and exposes the provider's context
+ */
+function renderSubscription(type: string, handler: (event: SseEvent) => void, props: { retryTimeout?: number } = {}) {
+  let context: SseContextValue | null = null;
+  const result = renderHook(({ handler }) => {
+    context = useSseContext();
+    useSseSubscription(type, handler);
+  }, { wrapper: createWrapper(props), initialProps: { handler } });
+
+  return { ...result, getContext: () => context! };
+}
+
+describe('SseProvider', () => {
+  it('connects on mount, tracks the status and closes on unmount', async () => {
+    const { result, unmount } = renderHook(() => useSseContext(), { wrapper: createWrapper() });
+    const source = await waitForEventSource();
+
+    act(() => source.open());
+    expect(result.current.status).toBe(SseConnectionStatus.OPEN);
+
+    unmount();
+    expect(source.closed).toBe(true);
+  });
+
+  it('throws when used outside a provider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(() => useSseContext())).toThrow('useSseContext must be used within an SseProvider');
+  });
+
+  it('shares one connection between nested components', async () => {
+    const notifications = vi.fn();
+    const alerts = vi.fn();
+    const Notifications = () => {
+      useSseSubscription('notification', notifications);
+      return null;
+    };
+    const Alerts = () => {
+      useSseSubscription('alert', alerts);
+      return null;
+    };
+    const Wrapper = createWrapper();
+
+    render(<Wrapper><div><Notifications /></div><Alerts /></Wrapper>);
+    const source = await waitForEventSource();
+
+    act(() => {
+      source.emit('notification', { type: 'notification', messageId: 'a' });
+      source.emit('alert', { type: 'alert', messageId: 'b' });
+    });
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(notifications).toHaveBeenCalledTimes(1);
+    expect(alerts).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useSseSubscription', () => {
+  it('calls the handler with events of its type only', async () => {
+    const handler = vi.fn();
+    renderSubscription('notification', handler);
+    const source = await waitForEventSource();
+
+    act(() => {
+      source.emit('notification', { type: 'notification', messageId: 'a' });
+      source.emit('alert', { type: 'alert', messageId: 'b' });
+    });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ event: 'notification' }));
+  });
+
+  it('keeps one subscription across re-renders and calls the latest handler', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender, getContext } = renderSubscription('notification', first);
+    const source = await waitForEventSource();
+
+    rerender({ handler: second });
+    act(() => source.emit('notification', { type: 'notification', messageId: 'a' }));
+
+    expect(getContext().subscriptions.getSubscriptionCount()).toBe(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps receiving events after a reconnection', async () => {
+    const handler = vi.fn();
+    renderSubscription('notification', handler, { retryTimeout: 10 });
+    const source = await waitForEventSource();
+
+    act(() => source.error());
+    const reconnected = await waitForEventSource(2);
+    act(() => reconnected.emit('notification', { type: 'notification', messageId: 'a' }));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('unsubscribes on unmount', async () => {
+    const handler = vi.fn();
+    const { unmount, getContext } = renderSubscription('notification', handler);
+    await waitForEventSource();
+    const { subscriptions } = getContext();
+
+    unmount();
+
+    expect(subscriptions.getSubscriptionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import type { DependencyList } from 'react';
+import type { SseEvent } from '../services/sseService';
+import type { SseEventPredicate, SseSubscriptionHandler } from '../services/sseSubscriptionManager';
+import { useSseContext } from './sseContext';
+
+/**
+ * Subscribes to events of the nearest SseProvider's client
+ * The subscription is made once per client and event type: re-renders don't resubscribe,
+ * and it survives reconnections. When the provider replaces its client, the subscription
+ * moves to the new one.
+ * @param type Event type (legacy filter names such as 'update' are accepted) or predicate
+ * @param handler Function called with each matching event
+ * @param deps Values the handler depends on; it is replaced when they change (default: on every render)
+ */
+export function useSseSubscription(
+  type: string | SseEventPredicate,
+  handler: SseSubscriptionHandler,
+  deps?: DependencyList
+): void {
+  const { subscriptions } = useSseContext();
+  const handlerRef = useRef(handler);
+  const handlerDepsRef = useRef(deps);
+  const predicateRef = useRef<SseEventPredicate | null>(typeof type === 'function' ? type : null);
+
+  // Replace the handler after each render whose deps changed, before any event can arrive
+  useLayoutEffect(() => {
+    if (!deps || !handlerDepsRef.current || !areDepsEqual(deps, handlerDepsRef.current)) {
+      handlerRef.current = handler;
+      handlerDepsRef.current = deps;
+    }
+    predicateRef.current = typeof type === 'function' ? type : null;
+  });
+
+  // Predicates are read through the ref, so only a change of event type resubscribes
+  const eventType = typeof type === 'string' ? type : null;
+
+  useEffect(() => {
+    const selector = eventType ?? ((event: SseEvent) => predicateRef.current?.(event) ?? false);
+    return subscriptions.subscribe(selector, (event) => handlerRef.current(event));
+  }, [subscriptions, eventType]);
+}
+
+/**
+ * Compares dependency lists like React does
+ */
+function areDepsEqual(next: DependencyList, previous: DependencyList): boolean {
+  return next.length === previous.length && next.every((value, index) => Object.is(value, previous[index]));
+}
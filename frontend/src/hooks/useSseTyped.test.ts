@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useSseTyped } from './useSseTyped';
+import { MemoryCheckpointStore } from '../services/checkpointStore';
+import { FakeEventSource } from '../test/fakeEventSource';
+
+/**
+ * Waits until the hook's client has opened its event source
+ */
+async function waitForEventSource(): Promise<FakeEventSource> {
+  await waitFor(() => expect(FakeEventSource.instances).toHaveLength(1));
+  return FakeEventSource.latest();
+}
+
+/**
+ * Builds a payload of an event type with the base event fields
+ */
+function payload(type: string, index: number, fields: Record<string, unknown>) {
+  return {
+    type,
+    messageId: `00000000-0000-4000-8000-${index.toString().padStart(12, '0')}`,
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    ...fields,
+  };
+}
+
+const options = {
+  url: '/api/sse/connect',
+  clientId: 'test-client',
+  checkpointStore: new MemoryCheckpointStore(),
+};
+
+describe('useSseTyped', () => {
+  it('routes each event type to its collection and callback', async () => {
+    const onNotification = vi.fn();
+    const onDataUpdate = vi.fn();
+    const { result } = renderHook(() => useSseTyped({ ...options, onNotification, onDataUpdate }));
+    const source = await waitForEventSource();
+
+    act(() => {
+      source.emit('notification', payload('notification', 1, { message: 'Hello', severity: 'info' }));
+      source.emit('dataUpdate', payload('dataUpdate', 2, { entityId: '42', entityType: 'order', changes: { total: 10 } }));
+      source.emit('heartbeat', payload('heartbeat', 3, {}));
+    });
+
+    expect(result.current.notifications.map(notification => notification.message)).toEqual(['Hello']);
+    expect(result.current.dataUpdates.map(update => update.entityId)).toEqual(['42']);
+    expect(result.current.eventsByType.heartbeat).toHaveLength(1);
+    expect(result.current.typedEvents).toHaveLength(3);
+    expect(onNotification).toHaveBeenCalledWith(expect.objectContaining({ message: 'Hello' }));
+    expect(onDataUpdate).toHaveBeenCalledWith(expect.objectContaining({ entityType: 'order' }));
+  });
+
+  it('calls handlers registered with on() for their event type only', async () => {
+    const handler = vi.fn();
+    const { result } = renderHook(() => useSseTyped(options));
+    const source = await waitForEventSource();
+    act(() => {
+      result.current.on('dataUpdate', handler);
+    });
+
+    act(() => {
+      source.emit('notification', payload('notification', 1, { message: 'Hello', severity: 'info' }));
+      source.emit('dataUpdate', payload('dataUpdate', 2, { entityId: '42', entityType: 'order', changes: {} }));
+    });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ entityId: '42' }));
+  });
+
+  it('keeps invalid events as raw JSON unless strict', async () => {
+    const { result } = renderHook(() => useSseTyped(options));
+    const source = await waitForEventSource();
+
+    act(() => source.emit('notification', payload('notification', 1, { message: 'Hello', severity: 'unknown' })));
+
+    expect(result.current.notifications).toHaveLength(1);
+    expect(result.current.quarantinedEvents).toEqual([]);
+  });
+
+  it('quarantines invalid events in strict mode', async () => {
+    const onValidationError = vi.fn();
+    const onNotification = vi.fn();
+    const { result } = renderHook(() => useSseTyped({ ...options, strict: true, onValidationError, onNotification }));
+    const source = await waitForEventSource();
+
+    act(() => source.emit('notification', payload('notification', 1, { message: 'Hello', severity: 'unknown' })));
+
+    expect(result.current.notifications).toEqual([]);
+    expect(result.current.quarantinedEvents).toHaveLength(1);
+    expect(result.current.quarantinedEvents[0].eventType).toBe('notification');
+    expect(onValidationError).toHaveBeenCalledTimes(1);
+    expect(onNotification).not.toHaveBeenCalled();
+  });
+
+  it('applies strict mode and callbacks of the latest render', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ strict, onNotification }) => useSseTyped({ ...options, strict, onNotification }),
+      { initialProps: { strict: false, onNotification: first } }
+    );
+    const source = await waitForEventSource();
+
+    rerender({ strict: true, onNotification: second });
+    act(() => source.emit('notification', payload('notification', 1, { message: 'Hello', severity: 'unknown' })));
+    act(() => source.emit('notification', payload('notification', 2, { message: 'Hello', severity: 'info' })));
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(result.current.quarantinedEvents).toHaveLength(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,6 +1,7 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
-import { SseClient, SseConnectionStatus } from '../services/sseService';
-import type { SseOptions, SseEvent } from '../services/sseService';
+import { useCallback, useLayoutEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { SseEvent } from '../services/sseService';
+import { SseStore } from '../services/sseStore';
+import type { SseStoreOptions } from '../services/sseStore';
 import { SseEventTypes } from '../models/sseEventTypes';
 import {
   EventPayload,
@@ -11,19 +12,26 @@ import {
   isDataUpdate,
   isHeartbeat
 } from '../models/sseMessages';
-import {
-  parseEventPayload,
-  parseNotification,
-  parseDataUpdate,
-  parseHeartbeat
-} from '../models/sseSchemas';
+import { BuiltInEvents } from '../models/sseSchemas';
+import type { BuiltInEventDefinition } from '../models/sseSchemas';
+import { sseEventRegistry } from '../models/sseEventRegistry';
+import type { SseEventDefinition, SseEventPayload, SseEventPayloadOf } from '../models/sseEventRegistry';
+import { SseEventVersionError } from '../models/sseEventVersioning';
+import { SseValidationError } from '../models/sseValidation';
+import type { SseValidationOptions } from '../models/sseValidation';
+import { createLogger } from '../services/logger';
+
+const defaultLogger = createLogger('sse:hooks');
 
 /**
  * Hook options for useSseTyped
  */
-export interface UseSseTypedOptions extends Omit<SseOptions, 'onOpen' | 'onClose' | 'onError' | 'onMessage' | 'onEvent'> {
-  /** Whether to connect immediately (default: true) */
-  autoConnect?: boolean;
+export interface UseSseTypedOptions<TEvents extends SseEventDefinition = BuiltInEventDefinition>
+  extends Omit<SseStoreOptions, 'onOpen' | 'onClose' | 'onError' | 'onMessage' | 'onEvent' | 'maxEvents' | 'autoClearOldEvents'>,
+    SseValidationOptions {
+
+  /** Event definitions to collect per type (default: the built-in events) */
+  events?: readonly TEvents[];
 
   /** Callback for when a notification is received */
   onNotification?: (notification: NotificationPayload) => void;
@@ -36,12 +44,22 @@ export interface UseSseTypedOptions extends Omit<SseOptions, 'onOpen' | 'onClose
 
   /** Callback for when any event is received */
   onAnyEvent?: (event: EventPayload) => void;
+
+  /** Callback for payloads of a version that can't be upcast; such payloads are dropped */
+  onVersionError?: (error: SseEventVersionError) => void;
 }
 
+/**
+ * Payloads received, collected per event type
+ */
+export type SseTypedCollections<TEvents extends SseEventDefinition> = {
+  [K in TEvents['type']]: SseEventPayloadOf<TEvents, K>[];
+};
+
 /**
  * Hook return type for useSseTyped
  */
-export interface UseSseTypedResult {
+export interface UseSseTypedResult<TEvents extends SseEventDefinition = BuiltInEventDefinition> {
   /** Current connection status */
   status: string;
 
@@ -49,7 +67,10 @@ export interface UseSseTypedResult {
   events: SseEvent[];
 
   /** Typed events received */
-  typedEvents: EventPayload[];
+  typedEvents: SseEventPayload<TEvents>[];
+
+  /** Typed events received, per event type */
+  eventsByType: SseTypedCollections<TEvents>;
 
   /** Notifications received */
   notifications: NotificationPayload[];
@@ -57,6 +78,15 @@ export interface UseSseTypedResult {
   /** Data updates received */
   dataUpdates: DataUpdatePayload[];
 
+  /** Events rejected by schema validation in strict mode */
+  quarantinedEvents: SseValidationError[];
+
+  /**
+   * Registers a handler for one event type; call it from an effect and return the result as its cleanup
+   * @returns Function that removes the handler
+   */
+  on: <K extends TEvents['type']>(type: K, handler: (payload: SseEventPayloadOf<TEvents, K>) => void) => () => void;
+
   /** Connect to the SSE endpoint */
   connect: () => void;
 
@@ -67,157 +97,198 @@ export interface UseSseTypedResult {
   clearEvents: () => void;
 }
 
+/**
+ * Creates an empty collection for each event type
+ */
+function createCollections<TEvents extends SseEventDefinition>(definitions: readonly TEvents[]): SseTypedCollections<TEvents> {
+  const collections: Record<string, unknown[]> = {};
+  definitions.forEach(definition => {
+    collections[definition.type] = [];
+  });
+  return collections as SseTypedCollections<TEvents>;
+}
+
+/**
+ * Gets the type of an event: its SSE event name, or the payload's type field for generic messages
+ */
+function resolveEventType(event: SseEvent): string | null {
+  if (event.event && event.event !== SseEventTypes.Message) {
+    return event.event;
+  }
+
+  try {
+    const type = JSON.parse(event.data)?.type;
+    return typeof type === 'string' ? type : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Options read by the hook rather than the client; changing them never requires a new client */
+const HOOK_OPTIONS = new Set(['events', 'strict']);
+
+/**
+ * Gets the options passed on to the SSE store
+ */
+function getClientOptions(options: UseSseTypedOptions<SseEventDefinition>): SseStoreOptions {
+  return Object.fromEntries(Object.entries(options).filter(([key]) => !HOOK_OPTIONS.has(key))) as SseStoreOptions;
+}
+
 /**
  * Custom hook for using SSE with typed events
+ * Payloads are validated with the schemas registered through defineEvent. Like useSse, the
+ * client lives in an SseStore: callbacks are always called from the latest render, and
+ * changing any other option replaces the client.
  * @param options Hook options
  * @returns Hook result
  */
-export function useSseTyped(options: UseSseTypedOptions): UseSseTypedResult {
-  const [status, setStatus] = useState<string>(SseConnectionStatus.CLOSED);
-  const [events, setEvents] = useState<SseEvent[]>([]);
-  const [typedEvents, setTypedEvents] = useState<EventPayload[]>([]);
+export function useSseTyped<TEvents extends SseEventDefinition = BuiltInEventDefinition>(
+  options: UseSseTypedOptions<TEvents>
+): UseSseTypedResult<TEvents> {
+  const definitions = (options.events ?? BuiltInEvents) as readonly TEvents[];
+  const [typedEvents, setTypedEvents] = useState<SseEventPayload<TEvents>[]>([]);
+  const [eventsByType, setEventsByType] = useState<SseTypedCollections<TEvents>>(() => createCollections(definitions));
   const [notifications, setNotifications] = useState<NotificationPayload[]>([]);
   const [dataUpdates, setDataUpdates] = useState<DataUpdatePayload[]>([]);
+  const [quarantinedEvents, setQuarantinedEvents] = useState<SseValidationError[]>([]);
+  const handlersRef = useRef<Map<string, Set<(payload: unknown) => void>>>(new Map());
+  const optionsRef = useRef(options);
 
-  const clientRef = useRef<SseClient | null>(null);
+  const logger = options.logger ?? defaultLogger;
+  const storeOptions: SseStoreOptions = {
+    ...getClientOptions(options),
+    autoClearOldEvents: false,
+    onError: (error) => logger.error('SSE connection error:', error),
+  };
 
-  // Initialize the SSE client
-  useEffect(() => {
-    if (import.meta.env.DEV) {
-      console.debug('Initializing SSE client with options:', {
-        url: options.url,
-        clientId: options.clientId,
-        filter: options.filter
-      });
-    }
-
-    const sseOptions: SseOptions = {
-      ...options,
-      onOpen: () => {
-        setStatus(SseConnectionStatus.OPEN);
-      },
-      onClose: () => {
-        setStatus(SseConnectionStatus.CLOSED);
-      },
-      onError: (error) => {
-        console.error('SSE connection error:', error);
-        setStatus(SseConnectionStatus.ERROR);
-      },
-      onMessage: (event) => {
-        setEvents((prevEvents) => [...prevEvents, event]);
-
-        try {
-          // Try to parse the event data as a typed event
-          const payload = parseEventPayload(event.data);
-
-          // Add to the typed events list
-          setTypedEvents((prev) => [...prev, payload]);
-
-          // Call the appropriate callback based on event type
-          if (isNotification(payload) && options.onNotification) {
-            options.onNotification(payload);
-            setNotifications((prev) => [...prev, payload]);
-          } else if (isDataUpdate(payload) && options.onDataUpdate) {
-            options.onDataUpdate(payload);
-            setDataUpdates((prev) => [...prev, payload]);
-          } else if (isHeartbeat(payload) && options.onHeartbeat) {
-            options.onHeartbeat(payload);
+  const [store] = useState(() => new SseStore(storeOptions));
+  const { status, events } = useSyncExternalStore(store.subscribe, store.getSnapshot);
+
+  // Hand the store every render's options, before the client connects or receives events
+  useLayoutEffect(() => {
+    optionsRef.current = options;
+    store.setOptions(storeOptions);
+  });
+
+  // Route every event through the registry; untyped events are only kept as raw events
+  useLayoutEffect(() => {
+    const handleEvent = (event: SseEvent) => {
+      const options = optionsRef.current;
+      const logger = options.logger ?? defaultLogger;
+      const registry = options.eventRegistry ?? sseEventRegistry;
+
+      const type = resolveEventType(event);
+      if (!type || !registry.has(type)) {
+        return;
+      }
+
+      try {
+        const result = registry.parse(type, event.data)!;
+        if (!result.success) {
+          if (result.error instanceof SseEventVersionError) {
+            logger.error(result.error.message);
+            options.onVersionError?.(result.error);
+            return;
           }
 
-          // Call the any event callback if provided
-          if (options.onAnyEvent) {
-            options.onAnyEvent(payload);
+          const validationError = new SseValidationError(type, result.error, result.data);
+          options.onValidationError?.(validationError);
+
+          // In strict mode invalid events never reach the typed state or callbacks
+          if (options.strict) {
+            logger.warn(validationError.message);
+            setQuarantinedEvents((prev) => [...prev, validationError]);
+            return;
           }
-        } catch (error) {
-          console.error('Error parsing SSE event data:', error);
-          console.error('Raw event data:', event.data);
+
+          // Otherwise use the raw JSON as a fallback
+          logger.warn(`Schema validation failed for ${type} event:`, result.error);
         }
-      },
-      onEvent: {
-        [SseEventTypes.Notification]: (data) => {
-          try {
-            const notification = parseNotification(JSON.stringify(data));
-            if (options.onNotification) {
-              options.onNotification(notification);
-            }
-            setNotifications((prev) => [...prev, notification]);
-          } catch (error) {
-            console.error('Error parsing notification event:', error);
-          }
-        },
-        [SseEventTypes.DataUpdate]: (data) => {
-          try {
-            const dataUpdate = parseDataUpdate(JSON.stringify(data));
-            if (options.onDataUpdate) {
-              options.onDataUpdate(dataUpdate);
-            }
-            setDataUpdates((prev) => [...prev, dataUpdate]);
-          } catch (error) {
-            console.error('Error parsing data update event:', error);
-          }
-        },
-        [SseEventTypes.Heartbeat]: (data) => {
-          try {
-            const heartbeat = parseHeartbeat(JSON.stringify(data));
-            if (options.onHeartbeat) {
-              options.onHeartbeat(heartbeat);
-            }
-          } catch (error) {
-            console.error('Error parsing heartbeat event:', error);
-          }
+
+        const payload = result.data as SseEventPayload<TEvents>;
+        setTypedEvents((prev) => [...prev, payload]);
+
+        if ((options.events ?? BuiltInEvents).some(definition => definition.type === type)) {
+          setEventsByType((prev) => ({
+            ...prev,
+            [type]: [...((prev as Record<string, unknown[]>)[type] || []), payload],
+          }));
         }
-      }
-    };
 
-    // Create a new SSE client
-    clientRef.current = new SseClient(sseOptions);
+        // Call the appropriate callback based on event type
+        const basePayload = payload as EventPayload;
+        if (isNotification(basePayload)) {
+          options.onNotification?.(basePayload);
+          setNotifications((prev) => [...prev, basePayload]);
+        } else if (isDataUpdate(basePayload)) {
+          options.onDataUpdate?.(basePayload);
+          setDataUpdates((prev) => [...prev, basePayload]);
+        } else if (isHeartbeat(basePayload)) {
+          options.onHeartbeat?.(basePayload);
+        }
 
-    // Connect automatically if autoConnect is true
-    if (options.autoConnect !== false) {
-      clientRef.current.connect();
-    }
+        handlersRef.current.get(type)?.forEach(handler => handler(payload));
 
-    // Cleanup on unmount or when dependencies change
-    return () => {
-      if (clientRef.current) {
-        clientRef.current.close();
-        clientRef.current = null;
+        // Call the any event callback if provided
+        if (options.onAnyEvent) {
+          options.onAnyEvent(basePayload);
+        }
+      } catch (error) {
+        logger.error('Error parsing SSE event data:', error);
+        logger.debug('Raw event data:', event.data);
       }
     };
-  }, [options.url, options.clientId, options.filter]);
+
+    return store.subscribeEvents(handleEvent);
+  }, [store]);
 
   // Connect to the SSE endpoint
   const connect = useCallback(() => {
-    if (clientRef.current) {
-      clientRef.current.connect();
-    } else {
-      console.warn('Cannot connect: SSE client not initialized');
-    }
-  }, []);
+    store.connect();
+  }, [store]);
 
   // Disconnect from the SSE endpoint
   const disconnect = useCallback(() => {
-    if (clientRef.current) {
-      clientRef.current.close();
-    } else {
-      console.warn('Cannot disconnect: SSE client not initialized');
-    }
+    store.disconnect();
+  }, [store]);
+
+  // Register a handler for one event type
+  const on = useCallback(<K extends TEvents['type']>(type: K, handler: (payload: SseEventPayloadOf<TEvents, K>) => void) => {
+    const handlers = handlersRef.current.get(type) || new Set();
+    const untypedHandler = handler as (payload: unknown) => void;
+    handlers.add(untypedHandler);
+    handlersRef.current.set(type, handlers);
+
+    return () => {
+      handlers.delete(untypedHandler);
+    };
   }, []);
 
   // Clear all events
   const clearEvents = useCallback(() => {
-    setEvents([]);
+    store.clearEvents();
     setTypedEvents([]);
+    setEventsByType(prev => {
+      const cleared: Record<string, unknown[]> = { ...prev };
+      Object.keys(cleared).forEach(type => {
+        cleared[type] = [];
+      });
+      return cleared as SseTypedCollections<TEvents>;
+    });
     setNotifications([]);
     setDataUpdates([]);
-  }, []);
+    setQuarantinedEvents([]);
+  }, [store]);
 
   return {
     status,
     events,
     typedEvents,
+    eventsByType,
     notifications,
     dataUpdates,
+    quarantinedEvents,
+    on,
     connect,
     disconnect,
     clearEvents
@@ -0,0 +1,28 @@
+/**
+ * Generated from backend/Models/SseEventTypes.cs by scripts/generate-models.ts
+ * Do not edit by hand: change the C# source and run npm run generate:models.
+ */
+
+/**
+ * Event type constants
+ * These match exactly with the backend SseEventTypes.cs values
+ */
+export const SseEventTypes = {
+  /** Default message event type */
+  Message: 'message',
+
+  /** Notification event type for user notifications */
+  Notification: 'notification',
+
+  /** Data update event type for entity changes */
+  DataUpdate: 'dataUpdate',
+
+  /** Alert event type for important alerts */
+  Alert: 'alert',
+
+  /** Heartbeat event type to keep connections alive */
+  Heartbeat: 'heartbeat',
+
+  /** Connected event type sent when a client connects */
+  Connected: 'connected'
+} as const;
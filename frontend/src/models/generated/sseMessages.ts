@@ -0,0 +1,92 @@
+/**
+ * Generated from backend/Models/SseMessages.cs by scripts/generate-models.ts
+ * Do not edit by hand: change the C# source and run npm run generate:models.
+ */
+import type { SseEventTypes } from './sseEventTypes';
+
+/**
+ * Base class for all SSE message payloads
+ * This matches the C# BaseEventPayload class in the backend
+ */
+export interface BaseEventPayload {
+  /** Unique identifier for the message */
+  messageId: string;
+
+  /** Timestamp when the message was created (UTC) */
+  timestamp: string | Date;
+
+  /** Schema version for backward compatibility */
+  version: string;
+
+  /** Message type discriminator */
+  type: string;
+}
+
+/**
+ * Notification message payload
+ * This matches the C# NotificationPayload class in the backend
+ */
+export interface NotificationPayload extends BaseEventPayload {
+  /** Type discriminator for notifications */
+  type: typeof SseEventTypes.Notification;
+
+  /** The notification message text */
+  message: string;
+
+  /** Severity level of the notification */
+  severity: string;
+}
+
+/**
+ * Data update message payload
+ * This matches the C# DataUpdatePayload class in the backend
+ */
+export interface DataUpdatePayload extends BaseEventPayload {
+  /** Type discriminator for data updates */
+  type: typeof SseEventTypes.DataUpdate;
+
+  /** ID of the entity that was updated */
+  entityId: string;
+
+  /** Type of the entity that was updated */
+  entityType: string;
+
+  /** Changes made to the entity */
+  changes: Record<string, unknown>;
+}
+
+/**
+ * Alert message payload for urgent notifications
+ * This matches the C# AlertPayload class in the backend
+ */
+export interface AlertPayload extends BaseEventPayload {
+  /** Type discriminator for alerts */
+  type: typeof SseEventTypes.Alert;
+
+  /** The alert message text */
+  message: string;
+
+  /** Severity level of the alert (critical, high, medium, low) */
+  severity: string;
+
+  /** Category or type of alert (security, system, performance, etc.) */
+  category: string;
+}
+
+/**
+ * Heartbeat message payload to keep the connection alive
+ * This matches the C# HeartbeatPayload class in the backend
+ */
+export interface HeartbeatPayload extends BaseEventPayload {
+  /** Type discriminator for heartbeats */
+  type: typeof SseEventTypes.Heartbeat;
+}
+
+/**
+ * Union type for all possible event payloads
+ */
+export type EventPayload =
+  | NotificationPayload
+  | DataUpdatePayload
+  | AlertPayload
+  | HeartbeatPayload;
@@ -0,0 +1,62 @@
+/**
+ * Generated from backend/Models/SseMessages.cs and backend/Models/SseEventTypes.cs by scripts/generate-models.ts
+ * Do not edit by hand: change the C# source and run npm run generate:models.
+ */
+import { z } from 'zod';
+import { SseEventTypes } from './sseEventTypes';
+
+/**
+ * Schema for BaseEventPayload
+ */
+export const BaseEventSchema = z.object({
+  messageId: z.string().uuid(),
+  timestamp: z.string().datetime(),
+  version: z.string(),
+  type: z.string()
+});
+
+/**
+ * Schema for NotificationPayload
+ */
+export const NotificationSchema = BaseEventSchema.extend({
+  type: z.literal(SseEventTypes.Notification),
+  message: z.string(),
+  severity: z.enum(['info', 'warning', 'error'])
+});
+
+/**
+ * Schema for DataUpdatePayload
+ */
+export const DataUpdateSchema = BaseEventSchema.extend({
+  type: z.literal(SseEventTypes.DataUpdate),
+  entityId: z.string(),
+  entityType: z.string(),
+  changes: z.record(z.unknown())
+});
+
+/**
+ * Schema for AlertPayload
+ */
+export const AlertSchema = BaseEventSchema.extend({
+  type: z.literal(SseEventTypes.Alert),
+  message: z.string(),
+  severity: z.string(),
+  category: z.string()
+});
+
+/**
+ * Schema for HeartbeatPayload
+ */
+export const HeartbeatSchema = BaseEventSchema.extend({
+  type: z.literal(SseEventTypes.Heartbeat)
+});
+
+/**
+ * Union schema for all possible event payloads
+ */
+export const EventPayloadSchema = z.discriminatedUnion('type', [
+  NotificationSchema,
+  DataUpdateSchema,
+  AlertSchema,
+  HeartbeatSchema
+]);
@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { SseEventVersionError, upcastPayload } from './sseEventVersioning';
+import type { SseEventUpcaster, SseEventVersioning } from './sseEventVersioning';
+import type { SseValidationStats } from './sseValidation';
+
+/**
+ * Definition of an event type and the schema of its payload
+ */
+export interface SseEventDefinition<TType extends string = string, TSchema extends z.ZodTypeAny = z.ZodTypeAny> {
+  /** Event type (the SSE event name, and the payload's type discriminator) */
+  readonly type: TType;
+
+  /** Schema validating the payload */
+  readonly schema: TSchema;
+
+  /** Version of the payload shape the schema describes */
+  readonly version: string;
+
+  /** Upcasters migrating older major versions, keyed by the major version they migrate from */
+  readonly upcasters: Readonly<Record<number, SseEventUpcaster>>;
+}
+
+/**
+ * Payload type of an event definition
+ */
+export type SseEventPayload<TDefinition extends SseEventDefinition> = z.infer<TDefinition['schema']>;
+
+/**
+ * Payload type of one event type within a union of event definitions
+ */
+export type SseEventPayloadOf<TDefinitions extends SseEventDefinition, TType extends TDefinitions['type']> =
+  SseEventPayload<Extract<TDefinitions, { type: TType }>>;
+
+/**
+ * Result of parsing an event payload against its definition
+ */
+export type SseEventParseResult<TPayload = unknown> =
+  | { success: true; data: TPayload }
+  | { success: false; data: unknown; error: z.ZodError | SseEventVersionError };
+
+/**
+ * Runtime registry of event types
+ * SseClient listens for every registered type, and useSseTyped validates payloads
+ * with the registered schemas, so a new event type only needs to be defined once.
+ */
+export class SseEventRegistry {
+  private definitions: Map<string, SseEventDefinition> = new Map();
+  private defineListeners: Set<(definition: SseEventDefinition) => void> = new Set();
+  private validationStats: Map<string, SseValidationStats> = new Map();
+
+  /**
+   * Registers an event type, replacing any previous definition of it
+   * @param type Event type
+   * @param schema Schema validating the current version of the payload
+   * @param versioning Current version and upcasters for older versions
+   * @returns The event definition
+   */
+  public define<TType extends string, TSchema extends z.ZodTypeAny>(
+    type: TType,
+    schema: TSchema,
+    versioning: SseEventVersioning = {}
+  ): SseEventDefinition<TType, TSchema> {
+    const definition: SseEventDefinition<TType, TSchema> = {
+      type,
+      schema,
+      version: versioning.version ?? '1.0',
+      upcasters: versioning.upcasters ?? {},
+    };
+    this.definitions.set(type, definition);
+    this.defineListeners.forEach(listener => listener(definition));
+    return definition;
+  }
+
+  /**
+   * Gets the definition of an event type
+   */
+  public get(type: string): SseEventDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  /**
+   * Checks whether an event type is registered
+   */
+  public has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  /**
+   * Gets all registered event types
+   */
+  public getTypes(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Calls a listener whenever an event type is defined
+   * @returns Function that removes the listener
+   */
+  public onDefine(listener: (definition: SseEventDefinition) => void): () => void {
+    this.defineListeners.add(listener);
+    return () => {
+      this.defineListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Parses and validates a payload against the definition of its event type
+   * @param type Event type
+   * @param data The raw JSON string from the SSE event
+   * @returns The parse result, or null if the type isn't registered
+   */
+  public parse(type: string, data: string): SseEventParseResult | null {
+    return this.validate(type, JSON.parse(data));
+  }
+
+  /**
+   * Validates a parsed payload against the definition of its event type
+   * Older versions are upcast to the current shape first; versions that can't be
+   * upcast fail with an SseEventVersionError. Every result is counted in the validation stats.
+   * @param type Event type
+   * @param json Parsed JSON payload
+   * @returns The parse result, or null if the type isn't registered
+   */
+  public validate(type: string, json: unknown): SseEventParseResult | null {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      return null;
+    }
+
+    let payload: unknown;
+    try {
+      payload = upcastPayload(type, json, definition);
+    } catch (error) {
+      if (error instanceof SseEventVersionError) {
+        this.recordValidation(type, false);
+        return { success: false, data: json, error };
+      }
+      throw error;
+    }
+
+    const result = definition.schema.safeParse(payload);
+    this.recordValidation(type, result.success);
+
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, data: payload, error: result.error };
+  }
+
+  /**
+   * Gets the validation counters of each event type validated so far
+   * A rising failure count for a type means the server is sending payloads its schema doesn't describe.
+   */
+  public getValidationStats(): Record<string, SseValidationStats> {
+    const stats: Record<string, SseValidationStats> = {};
+    this.validationStats.forEach((typeStats, type) => {
+      stats[type] = { ...typeStats };
+    });
+    return stats;
+  }
+
+  /**
+   * Resets the validation counters
+   */
+  public resetValidationStats(): void {
+    this.validationStats.clear();
+  }
+
+  /**
+   * Counts a validation result for an event type
+   */
+  private recordValidation(type: string, passed: boolean): void {
+    const stats = this.validationStats.get(type) ?? { passed: 0, failed: 0 };
+    if (passed) {
+      stats.passed++;
+    } else {
+      stats.failed++;
+    }
+    this.validationStats.set(type, stats);
+  }
+}
+
+/**
+ * Registry used by default by SseClient and useSseTyped
+ */
+export const sseEventRegistry = new SseEventRegistry();
+
+/**
+ * Registers an event type in the default registry
+ * @param type Event type
+ * @param schema Schema validating the current version of the payload
+ * @param versioning Current version and upcasters for older versions
+ * @returns The event definition, to pass to useSseTyped
+ */
+export function defineEvent<TType extends string, TSchema extends z.ZodTypeAny>(
+  type: TType,
+  schema: TSchema,
+  versioning?: SseEventVersioning
+): SseEventDefinition<TType, TSchema> {
+  return sseEventRegistry.define(type, schema, versioning);
+}
@@ -4,29 +4,10 @@
  * Both frontend and backend should use these constants to ensure consistency
  */
 
-/**
- * Event type constants
- * These match exactly with the backend SseEventTypes.cs values
- */
-export const SseEventTypes = {
-  /** Default message event type */
-  Message: 'message',
-
-  /** Notification event type for user notifications */
-  Notification: 'notification',
-
-  /** Data update event type for entity changes */
-  DataUpdate: 'dataUpdate',
-
-  /** Alert event type for important alerts */
-  Alert: 'alert',
-
-  /** Heartbeat event type to keep connections alive */
-  Heartbeat: 'heartbeat',
+import { SseEventTypes } from './generated/sseEventTypes';
 
-  /** Connected event type sent when a client connects */
-  Connected: 'connected'
-} as const;
+// The constants are generated from the backend SseEventTypes.cs (npm run generate:models)
+export { SseEventTypes };
 
 /**
  * Type representing all valid event types
@@ -0,0 +1,101 @@
+/**
+ * Migrates a payload from one major version to the next
+ * @param payload Payload in the shape of the major version the upcaster is registered for
+ * @returns Payload in the shape of the next major version
+ */
+export type SseEventUpcaster = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Versioning of an event type's payload
+ */
+export interface SseEventVersioning {
+  /** Version of the payload shape the schema describes (default: '1.0') */
+  version?: string;
+
+  /**
+   * Upcasters keyed by the major version they migrate from
+   * To read 1.x payloads with a 3.0 schema, register upcasters for 1 (1 -> 2) and 2 (2 -> 3).
+   */
+  upcasters?: Record<number, SseEventUpcaster>;
+}
+
+/**
+ * Error for payloads whose version can't be brought to the current shape
+ * Raised for newer major versions than the client knows, unparseable versions,
+ * and older versions without an upcaster.
+ */
+export class SseEventVersionError extends Error {
+  /** Event type of the payload */
+  public readonly eventType: string;
+
+  /** Version carried by the payload */
+  public readonly version: unknown;
+
+  /** Version the client supports */
+  public readonly supportedVersion: string;
+
+  constructor(eventType: string, version: unknown, supportedVersion: string, reason: string) {
+    super(`Unsupported ${eventType} payload version ${String(version)} (supported: ${supportedVersion}): ${reason}`);
+    this.name = 'SseEventVersionError';
+    this.eventType = eventType;
+    this.version = version;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+/**
+ * Gets the major number of a version string such as "1.0"
+ * @returns The major version, or null if the version can't be parsed
+ */
+export function getMajorVersion(version: unknown): number | null {
+  if (typeof version !== 'string') {
+    return null;
+  }
+
+  const match = version.match(/^(\d+)(?:\.\d+)*$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Brings a payload to the current version of its event type
+ * Payloads of the current major version (any minor version) are returned as is; older
+ * ones go through the upcasters one major version at a time. Payloads without a
+ * version are assumed to be current.
+ * @param eventType Event type of the payload
+ * @param payload Parsed JSON payload
+ * @param versioning Versioning of the event type
+ * @returns The payload in the current shape
+ * @throws SseEventVersionError when the payload can't be migrated
+ */
+export function upcastPayload(eventType: string, payload: unknown, versioning: SseEventVersioning = {}): unknown {
+  const currentVersion = versioning.version ?? '1.0';
+  const currentMajor = getMajorVersion(currentVersion);
+
+  if (payload === null || typeof payload !== 'object' || !('version' in payload) || currentMajor === null) {
+    return payload;
+  }
+
+  const version = (payload as Record<string, unknown>).version;
+  const major = getMajorVersion(version);
+
+  if (major === null) {
+    throw new SseEventVersionError(eventType, version, currentVersion, 'version is not a number');
+  }
+  if (major > currentMajor) {
+    throw new SseEventVersionError(eventType, version, currentVersion, 'payload is newer than this client');
+  }
+  if (major === currentMajor) {
+    return payload;
+  }
+
+  let upcast = payload as Record<string, unknown>;
+  for (let fromMajor = major; fromMajor < currentMajor; fromMajor++) {
+    const upcaster = versioning.upcasters?.[fromMajor];
+    if (!upcaster) {
+      throw new SseEventVersionError(eventType, version, currentVersion, `no upcaster from version ${fromMajor}`);
+    }
+    upcast = upcaster(upcast);
+  }
+
+  return { ...upcast, version: currentVersion };
+}
@@ -1,75 +1,118 @@
-import { z } from 'zod';
+import type { z } from 'zod';
+import { SseEventTypes } from './sseEventTypes';
+import { defineEvent, sseEventRegistry } from './sseEventRegistry';
+import { SseEventVersionError } from './sseEventVersioning';
+import { SseValidationError } from './sseValidation';
+import type { SseValidationOptions } from './sseValidation';
+import { createLogger } from '../services/logger';
+import {
+  BaseEventSchema,
+  NotificationSchema,
+  DataUpdateSchema,
+  AlertSchema,
+  HeartbeatSchema,
+  EventPayloadSchema
+} from './generated/sseSchemas';
 
-/**
- * Base schema for all SSE message payloads
- */
-export const BaseEventSchema = z.object({
-  messageId: z.string().uuid(),
-  timestamp: z.string().datetime(),
-  version: z.string(),
-  type: z.string()
-});
+// The schemas are generated from the backend SseMessages.cs (npm run generate:models)
+export {
+  BaseEventSchema,
+  NotificationSchema,
+  DataUpdateSchema,
+  AlertSchema,
+  HeartbeatSchema,
+  EventPayloadSchema
+};
+
+const logger = createLogger('sse:schemas');
 
 /**
- * Schema for notification messages
+ * Built-in event definitions, registered in the default event registry
  */
-export const NotificationSchema = BaseEventSchema.extend({
-  type: z.literal('notification'),
-  message: z.string(),
-  severity: z.enum(['info', 'warning', 'error'])
-});
+export const NotificationEvent = defineEvent(SseEventTypes.Notification, NotificationSchema);
+export const DataUpdateEvent = defineEvent(SseEventTypes.DataUpdate, DataUpdateSchema);
+export const AlertEvent = defineEvent(SseEventTypes.Alert, AlertSchema);
+export const HeartbeatEvent = defineEvent(SseEventTypes.Heartbeat, HeartbeatSchema);
 
 /**
- * Schema for data update messages
+ * All built-in event definitions
  */
-export const DataUpdateSchema = BaseEventSchema.extend({
-  type: z.literal('dataUpdate'),
-  entityId: z.string(),
-  entityType: z.string(),
-  changes: z.record(z.any())
-});
+export const BuiltInEvents = [NotificationEvent, DataUpdateEvent, AlertEvent, HeartbeatEvent] as const;
+
+export type BuiltInEventDefinition = typeof BuiltInEvents[number];
 
 /**
- * Schema for heartbeat messages
+ * Reports a schema validation failure, and rejects the payload in strict mode
+ * @returns The raw payload, as a lenient fallback
+ * @throws SseValidationError in strict mode
  */
-export const HeartbeatSchema = BaseEventSchema.extend({
-  type: z.literal('heartbeat')
-});
+function handleValidationFailure<T>(type: string, zodError: z.ZodError, data: unknown, label: string, options: SseValidationOptions): T {
+  const error = new SseValidationError(type, zodError, data);
+  options.onValidationError?.(error);
+
+  if (options.strict) {
+    throw error;
+  }
+
+  logger.warn(`${label} schema validation failed:`, zodError);
+  return data as T;
+}
 
 /**
- * Union schema for all possible event payloads
+ * Validates a payload with the version-aware definition of its event type
+ * Payloads of an unsupported version throw; other validation failures fall back to the
+ * raw JSON, or throw in strict mode.
+ * @returns The validated payload, the raw JSON, or undefined if the type isn't registered
  */
-export const EventPayloadSchema = z.discriminatedUnion('type', [
-  NotificationSchema,
-  DataUpdateSchema,
-  HeartbeatSchema
-]);
+function validateRegistered<T>(type: string, json: unknown, label: string, options: SseValidationOptions): T | undefined {
+  const result = sseEventRegistry.validate(type, json);
+  if (!result) {
+    return undefined;
+  }
+
+  if (result.success) {
+    return result.data as T;
+  }
+
+  if (result.error instanceof SseEventVersionError) {
+    throw result.error;
+  }
+
+  return handleValidationFailure<T>(type, result.error, result.data, label, options);
+}
 
 /**
  * Parse and validate a message payload
  * @param data The raw JSON string from the SSE event
+ * @param options Validation options
  * @returns The validated payload or throws an error
  */
-export function parseEventPayload(data: string) {
+export function parseEventPayload(data: string, options: SseValidationOptions = {}) {
   try {
-    console.log('Parsing event payload:', data);
+    logger.debug('Parsing event payload:', data);
     const json = JSON.parse(data);
-    console.log('Parsed JSON:', json);
+    logger.debug('Parsed JSON:', json);
+
+    // Validate against the registered definition of the payload's type, upcasting older versions
+    const payload = validateRegistered<z.infer<typeof EventPayloadSchema>>(json.type, json, 'Event payload', options);
+    if (payload !== undefined) {
+      logger.debug('Validation successful:', payload);
+      return payload;
+    }
 
     // Try to validate against our schema
     const result = EventPayloadSchema.safeParse(json);
 
     if (result.success) {
-      console.log('Validation successful:', result.data);
+      logger.debug('Validation successful:', result.data);
       return result.data;
     } else {
-      console.warn('Schema validation failed:', result.error);
-      // If validation fails, return the raw JSON as a fallback
-      return json;
+      // If validation fails, return the raw JSON as a fallback unless validation is strict
+      return handleValidationFailure<typeof json>(json.type ?? SseEventTypes.Message, result.error, json, 'Event payload', options);
     }
   } catch (error) {
-    console.error('Invalid SSE message format:', error);
-    console.error('Raw data:', data);
+    logger.error('Invalid SSE message format:', error);
+    logger.debug('Raw data:', data);
     throw error;
   }
 }
@@ -77,23 +120,18 @@ export function parseEventPayload(data: string) {
 /**
  * Parse and validate a notification payload
  * @param data The raw JSON string from the SSE event
+ * @param options Validation options
  * @returns The validated notification payload or throws an error
  */
-export function parseNotification(data: string) {
+export function parseNotification(data: string, options: SseValidationOptions = {}) {
   try {
-    console.log('Parsing notification payload:', data);
+    logger.debug('Parsing notification payload:', data);
     const json = JSON.parse(data);
-    console.log('Parsed notification JSON:', json);
+    logger.debug('Parsed notification JSON:', json);
 
-    const result = NotificationSchema.safeParse(json);
-    if (result.success) {
-      return result.data;
-    } else {
-      console.warn('Notification schema validation failed:', result.error);
-      return json;
-    }
+    return validateRegistered<z.infer<typeof NotificationSchema>>(SseEventTypes.Notification, json, 'Notification', options) ?? json;
   } catch (error) {
-    console.error('Invalid notification format:', error);
+    logger.error('Invalid notification format:', error);
     throw error;
   }
 }
@@ -101,23 +139,18 @@ export function parseNotification(data: string) {
 /**
  * Parse and validate a data update payload
  * @param data The raw JSON string from the SSE event
+ * @param options Validation options
  * @returns The validated data update payload or throws an error
  */
-export function parseDataUpdate(data: string) {
+export function parseDataUpdate(data: string, options: SseValidationOptions = {}) {
   try {
-    console.log('Parsing data update payload:', data);
+    logger.debug('Parsing data update payload:', data);
     const json = JSON.parse(data);
-    console.log('Parsed data update JSON:', json);
+    logger.debug('Parsed data update JSON:', json);
 
-    const result = DataUpdateSchema.safeParse(json);
-    if (result.success) {
-      return result.data;
-    } else {
-      console.warn('Data update schema validation failed:', result.error);
-      return json;
-    }
+    return validateRegistered<z.infer<typeof DataUpdateSchema>>(SseEventTypes.DataUpdate, json, 'Data update', options) ?? json;
   } catch (error) {
-    console.error('Invalid data update format:', error);
+    logger.error('Invalid data update format:', error);
     throw error;
   }
 }
@@ -125,23 +158,18 @@ export function parseDataUpdate(data: string) {
 /**
  * Parse and validate a heartbeat payload
  * @param data The raw JSON string from the SSE event
+ * @param options Validation options
  * @returns The validated heartbeat payload or throws an error
  */
-export function parseHeartbeat(data: string) {
+export function parseHeartbeat(data: string, options: SseValidationOptions = {}) {
   try {
-    console.log('Parsing heartbeat payload:', data);
+    logger.debug('Parsing heartbeat payload:', data);
     const json = JSON.parse(data);
-    console.log('Parsed heartbeat JSON:', json);
+    logger.debug('Parsed heartbeat JSON:', json);
 
-    const result = HeartbeatSchema.safeParse(json);
-    if (result.success) {
-      return result.data;
-    } else {
-      console.warn('Heartbeat schema validation failed:', result.error);
-      return json;
-    }
+    return validateRegistered<z.infer<typeof HeartbeatSchema>>(SseEventTypes.Heartbeat, json, 'Heartbeat', options) ?? json;
   } catch (error) {
-    console.error('Invalid heartbeat format:', error);
+    logger.error('Invalid heartbeat format:', error);
     throw error;
   }
 }
@@ -0,0 +1,55 @@
+import type { z } from 'zod';
+
+/**
+ * Error for payloads that fail schema validation
+ */
+export class SseValidationError extends Error {
+  /** Event type of the payload */
+  public readonly eventType: string;
+
+  /** Zod issues describing what didn't match the schema */
+  public readonly issues: z.ZodIssue[];
+
+  /** The payload that failed validation */
+  public readonly data: unknown;
+
+  constructor(eventType: string, zodError: z.ZodError, data: unknown) {
+    super(`Invalid ${eventType} payload: ${zodError.issues.map(formatIssue).join('; ')}`);
+    this.name = 'SseValidationError';
+    this.eventType = eventType;
+    this.issues = zodError.issues;
+    this.data = data;
+  }
+}
+
+/**
+ * Validation behaviour of the payload parsers
+ */
+export interface SseValidationOptions {
+  /**
+   * Whether invalid payloads are rejected instead of passed on as raw JSON (default: false)
+   * Parsers throw the SseValidationError; useSseTyped keeps the event out of its typed state and callbacks.
+   */
+  strict?: boolean;
+
+  /** Callback for payloads that fail schema validation, in both strict and lenient mode */
+  onValidationError?: (error: SseValidationError) => void;
+}
+
+/**
+ * Validation counters of one event type
+ */
+export interface SseValidationStats {
+  /** Payloads that matched the schema */
+  passed: number;
+
+  /** Payloads that failed the schema or had an unsupported version */
+  failed: number;
+}
+
+/**
+ * Formats a Zod issue as "path: message"
+ */
+function formatIssue(issue: z.ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
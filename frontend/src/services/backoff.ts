@@ -0,0 +1,104 @@
+/**
+ * Computes the delay before a reconnection attempt
+ * @param attempt 1-based reconnection attempt number
+ * @param previousDelay Delay used for the previous attempt (0 before the first attempt)
+ * @returns Delay in milliseconds
+ */
+export type BackoffStrategy = (attempt: number, previousDelay: number) => number;
+
+/**
+ * Built-in backoff strategy names
+ */
+export const BackoffStrategies = {
+  /** Same delay before every attempt */
+  FIXED: 'fixed',
+  /** Delay doubles with every attempt, with random jitter */
+  EXPONENTIAL: 'exponential',
+  /** Random delay between the base delay and three times the previous delay */
+  DECORRELATED_JITTER: 'decorrelated-jitter',
+} as const;
+
+export type BackoffStrategyName = typeof BackoffStrategies[keyof typeof BackoffStrategies];
+
+/**
+ * Options shared by the built-in backoff strategies
+ */
+export interface BackoffOptions {
+  /** Base delay in milliseconds */
+  baseDelay: number;
+
+  /** Maximum delay in milliseconds */
+  maxDelay: number;
+
+  /** Random number source in [0, 1) (default: Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Options for exponential backoff
+ */
+export interface ExponentialBackoffOptions extends BackoffOptions {
+  /** Growth factor per attempt (default: 2) */
+  multiplier?: number;
+
+  /** Fraction of the delay that is randomized, from 0 to 1 (default: 0.5) */
+  jitter?: number;
+}
+
+/**
+ * Creates a strategy that always waits the base delay
+ */
+export function fixedBackoff({ baseDelay, maxDelay }: BackoffOptions): BackoffStrategy {
+  return () => Math.min(baseDelay, maxDelay);
+}
+
+/**
+ * Creates a strategy whose delay grows exponentially up to the maximum delay
+ * A fraction of each delay is randomized so that clients disconnected together
+ * do not all reconnect at the same moment.
+ */
+export function exponentialBackoff({
+  baseDelay,
+  maxDelay,
+  multiplier = 2,
+  jitter = 0.5,
+  random = Math.random,
+}: ExponentialBackoffOptions): BackoffStrategy {
+  const jitterRatio = Math.min(Math.max(jitter, 0), 1);
+
+  return (attempt) => {
+    const delay = Math.min(maxDelay, baseDelay * Math.pow(multiplier, Math.max(attempt - 1, 0)));
+    return Math.round(delay * (1 - jitterRatio) + delay * jitterRatio * random());
+  };
+}
+
+/**
+ * Creates a "decorrelated jitter" strategy
+ * Each delay is picked at random between the base delay and three times the previous delay.
+ */
+export function decorrelatedJitterBackoff({
+  baseDelay,
+  maxDelay,
+  random = Math.random,
+}: BackoffOptions): BackoffStrategy {
+  return (_attempt, previousDelay) => {
+    const upper = Math.max(baseDelay, previousDelay * 3);
+    return Math.round(Math.min(maxDelay, baseDelay + (upper - baseDelay) * random()));
+  };
+}
+
+/**
+ * Creates one of the built-in backoff strategies by name
+ * @param name Strategy name
+ * @param options Strategy options
+ */
+export function createBackoffStrategy(name: BackoffStrategyName, options: BackoffOptions): BackoffStrategy {
+  switch (name) {
+    case BackoffStrategies.EXPONENTIAL:
+      return exponentialBackoff(options);
+    case BackoffStrategies.DECORRELATED_JITTER:
+      return decorrelatedJitterBackoff(options);
+    default:
+      return fixedBackoff(options);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Checkpoint record persisted between connections
+ */
+export interface SseCheckpoint {
+  /** Last sequence number received */
+  sequenceNumber: number | null;
+
+  /** Last event ID received */
+  eventId: string | null;
+
+  /** Time the checkpoint was saved (ISO 8601) */
+  timestamp: string;
+
+  /** Client ID the checkpoint belongs to */
+  clientId?: string;
+
+  /** Deduplication keys of recently delivered events, least recent first */
+  recentKeys?: string[];
+}
+
+/**
+ * Storage backend for checkpoints
+ * All operations are asynchronous so that backends such as IndexedDB can be used.
+ */
+export interface CheckpointStore {
+  /** Loads the checkpoint stored under a key, or null if there is none */
+  load(key: string): Promise<SseCheckpoint | null>;
+
+  /** Saves a checkpoint under a key */
+  save(key: string, checkpoint: SseCheckpoint): Promise<void>;
+
+  /** Removes the checkpoint stored under a key */
+  clear(key: string): Promise<void>;
+}
+
+/**
+ * In-memory checkpoint store
+ * Works everywhere (private browsing, workers, Node) but does not survive a reload.
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints: Map<string, SseCheckpoint> = new Map();
+
+  public async load(key: string): Promise<SseCheckpoint | null> {
+    return this.checkpoints.get(key) ?? null;
+  }
+
+  public async save(key: string, checkpoint: SseCheckpoint): Promise<void> {
+    this.checkpoints.set(key, { ...checkpoint });
+  }
+
+  public async clear(key: string): Promise<void> {
+    this.checkpoints.delete(key);
+  }
+}
+
+/**
+ * Checkpoint store backed by a Web Storage area (localStorage or sessionStorage)
+ */
+export class WebStorageCheckpointStore implements CheckpointStore {
+  private storage: Storage;
+
+  /**
+   * Creates a new Web Storage checkpoint store
+   * @param storage Storage area to use
+   */
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  public async load(key: string): Promise<SseCheckpoint | null> {
+    const checkpointData = this.storage.getItem(key);
+    return checkpointData ? JSON.parse(checkpointData) : null;
+  }
+
+  public async save(key: string, checkpoint: SseCheckpoint): Promise<void> {
+    this.storage.setItem(key, JSON.stringify(checkpoint));
+  }
+
+  public async clear(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Checkpoint store backed by localStorage (shared by all tabs, survives restarts)
+ */
+export class LocalStorageCheckpointStore extends WebStorageCheckpointStore {
+  constructor() {
+    super(window.localStorage);
+  }
+}
+
+/**
+ * Checkpoint store backed by sessionStorage (per tab, survives reloads)
+ */
+export class SessionStorageCheckpointStore extends WebStorageCheckpointStore {
+  constructor() {
+    super(window.sessionStorage);
+  }
+}
+
+/**
+ * Checkpoint store backed by IndexedDB
+ * Available in workers and able to hold larger records than Web Storage.
+ */
+export class IndexedDbCheckpointStore implements CheckpointStore {
+  private databaseName: string;
+  private storeName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Creates a new IndexedDB checkpoint store
+   * @param databaseName Database name (default: 'sse-checkpoints')
+   * @param storeName Object store name (default: 'checkpoints')
+   */
+  constructor(databaseName = 'sse-checkpoints', storeName = 'checkpoints') {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  public async load(key: string): Promise<SseCheckpoint | null> {
+    const result = await this.request<SseCheckpoint | undefined>('readonly', store => store.get(key));
+    return result ?? null;
+  }
+
+  public async save(key: string, checkpoint: SseCheckpoint): Promise<void> {
+    await this.request('readwrite', store => store.put(checkpoint, key));
+  }
+
+  public async clear(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  /**
+   * Opens the database on first use
+   * A failed open isn't cached, so the next request tries again.
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const database = new Promise<IDBDatabase>((resolve, reject) => {
+        const openRequest = indexedDB.open(this.databaseName, 1);
+        openRequest.onupgradeneeded = () => {
+          openRequest.result.createObjectStore(this.storeName);
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+
+      database.catch(() => {
+        if (this.database === database) {
+          this.database = null;
+        }
+      });
+      this.database = database;
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Runs a request against the object store in its own transaction
+   */
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Creates the default checkpoint store
+ * Uses localStorage when it is available and writable, memory otherwise.
+ */
+export function createDefaultCheckpointStore(): CheckpointStore {
+  try {
+    const probeKey = '__sse-checkpoint-probe__';
+    window.localStorage.setItem(probeKey, probeKey);
+    window.localStorage.removeItem(probeKey);
+    return new LocalStorageCheckpointStore();
+  } catch {
+    return new MemoryCheckpointStore();
+  }
+}
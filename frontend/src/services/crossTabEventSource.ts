@@ -0,0 +1,286 @@
+import { SseEventTypes } from '../models/sseEventTypes';
+import type { SseEventSource } from './sseService';
+import { createLogger } from './logger';
+import type { SseLogger } from './logger';
+
+/**
+ * Messages exchanged between tabs over the BroadcastChannel
+ */
+type CrossTabMessage =
+  | { kind: 'event'; type: string; data: string; lastEventId: string }
+  | { kind: 'open' }
+  | { kind: 'error' }
+  | { kind: 'hello' }
+  | { kind: 'listen'; types: string[] };
+
+/**
+ * Checks whether the browser supports sharing a connection across tabs
+ */
+export function isCrossTabSupported(): boolean {
+  return typeof BroadcastChannel !== 'undefined'
+    && typeof navigator !== 'undefined'
+    && 'locks' in navigator;
+}
+
+/**
+ * Event source shared by every tab of the same origin
+ * Tabs elect a leader with the Web Locks API: the tab holding the lock opens the real
+ * connection and relays each event and error over a BroadcastChannel, the others only
+ * listen. When the leader closes its connection or the tab goes away the lock is released
+ * and the next waiting tab takes over.
+ */
+export class CrossTabEventSource implements SseEventSource {
+  public onopen: ((event: Event) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+
+  private channel: BroadcastChannel;
+  private lockName: string;
+  private createSource: () => Promise<SseEventSource>;
+  private source: SseEventSource | null = null;
+  private leader = false;
+  private opened = false;
+  private closed = false;
+  private listeners: Map<string, ((event: MessageEvent) => void)[]> = new Map();
+  private relayedTypes: Set<string> = new Set();
+  private requestedTypes: Set<string> = new Set();
+  private lockAbortController = new AbortController();
+  private releaseLock: (() => void) | null = null;
+  private logger: SseLogger;
+
+  /**
+   * Creates a new cross-tab event source and joins the leader election
+   * @param name Name shared by all tabs using the same stream
+   * @param createSource Creates the real event source when this tab becomes the leader, after
+   * loading whatever the previous leader left behind (e.g. the shared checkpoint)
+   * @param logger Logger for leader election diagnostics
+   */
+  constructor(name: string, createSource: () => Promise<SseEventSource>, logger: SseLogger = createLogger('sse:cross-tab')) {
+    this.lockName = `${name}:leader`;
+    this.createSource = createSource;
+    this.logger = logger;
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event: MessageEvent<CrossTabMessage>) => this.handleChannelMessage(event.data);
+
+    // Ask a running leader to report that the stream is already open
+    this.post({ kind: 'hello' });
+    void this.requestLeadership();
+  }
+
+  /**
+   * Whether this tab currently holds the real connection
+   */
+  public get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Adds an event listener for a specific event type
+   */
+  public addEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    const listeners = this.listeners.get(type) || [];
+    listeners.push(listener);
+    this.listeners.set(type, listeners);
+
+    if (this.leader) {
+      this.relayType(type);
+    } else {
+      this.post({ kind: 'listen', types: [type] });
+    }
+  }
+
+  /**
+   * Removes an event listener for a specific event type
+   */
+  public removeEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) {
+      return;
+    }
+
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Leaves the election, closing the real connection if this tab is the leader
+   */
+  public close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.lockAbortController.abort();
+
+    if (this.source) {
+      this.source.onopen = null;
+      this.source.onerror = null;
+      this.source.onmessage = null;
+      this.source.close();
+      this.source = null;
+    }
+
+    this.leader = false;
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.channel.close();
+  }
+
+  /**
+   * Waits for the leader lock; holds it until this source is closed
+   */
+  private async requestLeadership(): Promise<void> {
+    try {
+      await navigator.locks.request(this.lockName, { signal: this.lockAbortController.signal }, async () => {
+        if (this.closed) {
+          return;
+        }
+
+        await this.becomeLeader();
+        if (this.closed) {
+          return;
+        }
+
+        await new Promise<void>(resolve => {
+          this.releaseLock = resolve;
+        });
+      });
+    } catch (error) {
+      // Aborted because this source was closed before it became the leader
+      if (!this.lockAbortController.signal.aborted) {
+        this.logger.error('Cross-tab leader election failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Opens the real connection and starts relaying its events
+   */
+  private async becomeLeader(): Promise<void> {
+    this.logger.info(`Became cross-tab SSE leader for ${this.lockName}`);
+    this.leader = true;
+
+    const source = await this.createSource();
+    if (this.closed) {
+      source.close();
+      return;
+    }
+    this.source = source;
+
+    this.source.onopen = (event) => {
+      this.post({ kind: 'open' });
+      this.dispatchOpen(event);
+    };
+
+    // Followers report the error too, so they don't show the stream as open while it is down;
+    // every client then reconnects, and the lock goes to whichever tab asks first
+    this.source.onerror = (event) => {
+      this.post({ kind: 'error' });
+      this.dispatchError(event);
+    };
+
+    this.relayType('message');
+    Object.values(SseEventTypes).forEach(type => this.relayType(type));
+    Array.from(this.listeners.keys()).forEach(type => this.relayType(type));
+    Array.from(this.requestedTypes).forEach(type => this.relayType(type));
+  }
+
+  /**
+   * Relays events of a type from the real connection to this tab and the others
+   */
+  private relayType(type: string): void {
+    if (!this.source || this.relayedTypes.has(type)) {
+      return;
+    }
+
+    this.relayedTypes.add(type);
+    this.source.addEventListener(type, (event) => {
+      this.post({ kind: 'event', type, data: event.data, lastEventId: event.lastEventId });
+      this.dispatchEvent(type, event.data, event.lastEventId);
+    });
+  }
+
+  /**
+   * Handles a message from another tab
+   */
+  private handleChannelMessage(message: CrossTabMessage): void {
+    if (this.closed) {
+      return;
+    }
+
+    switch (message.kind) {
+      case 'event':
+        if (!this.leader) {
+          this.dispatchEvent(message.type, message.data, message.lastEventId);
+        }
+        break;
+      case 'open':
+        if (!this.leader) {
+          this.dispatchOpen(new Event('open'));
+        }
+        break;
+      case 'error':
+        if (!this.leader) {
+          this.dispatchError(new Event('error'));
+        }
+        break;
+      case 'hello':
+        if (this.leader && this.opened) {
+          this.post({ kind: 'open' });
+        }
+        break;
+      case 'listen':
+        // Remembered by every tab, so a later leader relays them too
+        message.types.forEach(type => {
+          this.requestedTypes.add(type);
+          this.relayType(type);
+        });
+        break;
+    }
+  }
+
+  /**
+   * Reports the stream as open, once
+   */
+  private dispatchOpen(event: Event): void {
+    if (this.opened) {
+      return;
+    }
+
+    this.opened = true;
+    this.onopen?.(event);
+  }
+
+  /**
+   * Reports an error of the stream; the next open is reported again
+   */
+  private dispatchError(event: Event): void {
+    this.opened = false;
+    this.onerror?.(event);
+  }
+
+  /**
+   * Dispatches an event to onmessage or the typed listeners
+   */
+  private dispatchEvent(type: string, data: string, lastEventId: string): void {
+    const event = new MessageEvent(type, { data, lastEventId });
+
+    if (type === 'message') {
+      this.onmessage?.(event);
+    }
+
+    (this.listeners.get(type) || []).slice().forEach(listener => listener(event));
+  }
+
+  /**
+   * Posts a message to the other tabs
+   */
+  private post(message: CrossTabMessage): void {
+    if (!this.closed) {
+      this.channel.postMessage(message);
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import type { SseEvent, SseEventSource } from './sseService';
+import { SseParser } from './sseParser';
+import { createLogger } from './logger';
+import type { SseLogger } from './logger';
+
+/**
+ * Options for the fetch-based event source
+ */
+export interface FetchEventSourceInit {
+  /** Extra request headers (e.g. X-API-Key) */
+  headers?: Record<string, string>;
+
+  /** Last event ID to resume from, sent as the Last-Event-ID header */
+  lastEventId?: string | null;
+
+  /** Whether to send cookies with cross-origin requests (default: false) */
+  withCredentials?: boolean;
+
+  /** Logger for stream errors (default: the 'sse:fetch' logger) */
+  logger?: SseLogger;
+}
+
+/**
+ * Error event raised when the SSE endpoint responds with a non-2xx status
+ * or a content type other than text/event-stream
+ */
+export class SseHttpErrorEvent extends Event {
+  /** HTTP status code of the response */
+  readonly status: number;
+
+  /** HTTP status text of the response */
+  readonly statusText: string;
+
+  constructor(status: number, statusText: string) {
+    super('error');
+    this.status = status;
+    this.statusText = statusText;
+  }
+
+  /**
+   * Whether retrying can't succeed: client errors such as a rejected API key, except
+   * 408 Request Timeout and 429 Too Many Requests
+   */
+  get isFatal(): boolean {
+    return this.status >= 400 && this.status < 500 && this.status !== 408 && this.status !== 429;
+  }
+}
+
+/**
+ * Fetch-based event source
+ * Streams text/event-stream over fetch and ReadableStream so that headers can be sent
+ * and the HTTP status is observable. Exposes the same surface as EventSource.
+ */
+export class FetchEventSource implements SseEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  public readonly url: string;
+  public readyState: number = FetchEventSource.CONNECTING;
+  public onopen: ((event: Event) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+
+  private init: FetchEventSourceInit;
+  private abortController = new AbortController();
+  private listeners: Map<string, ((event: MessageEvent) => void)[]> = new Map();
+  private httpStatus: number | null = null;
+  private lastEventId: string;
+  private reconnectionTime: number | null = null;
+  private parser: SseParser;
+  private logger: SseLogger;
+
+  /**
+   * Creates a new fetch event source and starts the request
+   * @param url URL for the SSE endpoint
+   * @param init Request options
+   */
+  constructor(url: string, init: FetchEventSourceInit = {}) {
+    this.url = url;
+    this.init = init;
+    this.lastEventId = init.lastEventId ?? '';
+    this.logger = init.logger ?? createLogger('sse:fetch');
+    this.parser = new SseParser({
+      onEvent: this.dispatchParsedEvent.bind(this),
+      onRetry: (retry) => {
+        this.reconnectionTime = retry;
+      },
+    }, this.lastEventId);
+
+    void this.start();
+  }
+
+  /**
+   * Gets the HTTP status of the last response, or null if no response has been received
+   */
+  public get status(): number | null {
+    return this.httpStatus;
+  }
+
+  /**
+   * Gets the reconnection time most recently requested by the server via a retry field
+   */
+  public get retry(): number | null {
+    return this.reconnectionTime;
+  }
+
+  /**
+   * Adds an event listener for a specific event type
+   */
+  public addEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    const listeners = this.listeners.get(type) || [];
+    listeners.push(listener);
+    this.listeners.set(type, listeners);
+  }
+
+  /**
+   * Removes an event listener for a specific event type
+   */
+  public removeEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) {
+      return;
+    }
+
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Aborts the request and closes the stream
+   */
+  public close(): void {
+    this.readyState = FetchEventSource.CLOSED;
+    this.abortController.abort();
+  }
+
+  /**
+   * Performs the request and pumps the response body through the parser
+   */
+  private async start(): Promise<void> {
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      ...this.init.headers,
+    };
+
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+
+    try {
+      const response = await fetch(this.url, {
+        headers,
+        cache: 'no-store',
+        credentials: this.init.withCredentials ? 'include' : 'same-origin',
+        signal: this.abortController.signal,
+      });
+
+      this.httpStatus = response.status;
+
+      const contentType = response.headers.get('Content-Type') || '';
+      if (!response.ok || !contentType.startsWith('text/event-stream') || !response.body) {
+        this.fail(new SseHttpErrorEvent(response.status, response.statusText));
+        return;
+      }
+
+      this.readyState = FetchEventSource.OPEN;
+      this.onopen?.(new Event('open'));
+
+      const reader = response.body.getReader();
+
+      while (this.readyState !== FetchEventSource.CLOSED) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        this.parser.feed(value);
+      }
+      this.parser.end();
+
+      // The server ended the stream; report it like EventSource does so the client can reconnect
+      this.fail(new Event('error'));
+    } catch (error) {
+      if (this.abortController.signal.aborted) {
+        return;
+      }
+      this.logger.error('Fetch event source error:', error);
+      this.fail(new Event('error'));
+    }
+  }
+
+  /**
+   * Marks the source as closed and dispatches an error event
+   */
+  private fail(event: Event): void {
+    if (this.readyState === FetchEventSource.CLOSED) {
+      return;
+    }
+
+    this.readyState = FetchEventSource.CLOSED;
+    this.onerror?.(event);
+  }
+
+  /**
+   * Dispatches a parsed event to onmessage or the typed listeners
+   */
+  private dispatchParsedEvent(sseEvent: SseEvent): void {
+    const type = sseEvent.event || 'message';
+    this.lastEventId = sseEvent.id ?? '';
+
+    const event = new MessageEvent(type, {
+      data: sseEvent.data,
+      lastEventId: this.lastEventId,
+      origin: new URL(this.url, window.location.href).origin,
+    });
+
+    if (type === 'message') {
+      this.onmessage?.(event);
+    }
+
+    (this.listeners.get(type) || []).slice().forEach(listener => listener(event));
+  }
+}
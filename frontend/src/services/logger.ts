@@ -0,0 +1,247 @@
+/**
+ * Log levels, from most to least verbose
+ */
+export const LogLevels = {
+  DEBUG: 'debug',
+  INFO: 'info',
+  WARN: 'warn',
+  ERROR: 'error',
+  /** Logs nothing */
+  SILENT: 'silent',
+} as const;
+
+export type LogLevel = typeof LogLevels[keyof typeof LogLevels];
+
+const levelPriority: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * A log entry, after redaction
+ */
+export interface LogRecord {
+  /** Level of the entry */
+  level: Exclude<LogLevel, 'silent'>;
+
+  /** Subsystem that logged the entry, e.g. 'sse:client' */
+  namespace: string;
+
+  /** Log message */
+  message: string;
+
+  /** Additional values logged with the message */
+  args: unknown[];
+
+  /** Time of the entry (milliseconds since the epoch) */
+  timestamp: number;
+}
+
+/**
+ * Receives log entries, e.g. to write them to the console or to an in-app log panel
+ */
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * Logger options
+ */
+export interface SseLoggerOptions {
+  /** Minimum level that is logged (default: 'silent' in production builds, 'info' otherwise) */
+  level?: LogLevel;
+
+  /** Destination of log entries (default: the console) */
+  sink?: LogSink;
+
+  /** Keys whose values are redacted, case-insensitive (default: apikey and x-api-key) */
+  redactKeys?: string[];
+}
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Writes log entries to the console, prefixed with their namespace
+ */
+export const consoleSink: LogSink = (record) => {
+  const prefix = `[${record.namespace}]`;
+  switch (record.level) {
+    case LogLevels.DEBUG:
+      console.debug(prefix, record.message, ...record.args);
+      break;
+    case LogLevels.INFO:
+      console.log(prefix, record.message, ...record.args);
+      break;
+    case LogLevels.WARN:
+      console.warn(prefix, record.message, ...record.args);
+      break;
+    case LogLevels.ERROR:
+      console.error(prefix, record.message, ...record.args);
+      break;
+  }
+};
+
+/**
+ * Gets the default logging configuration of the build
+ */
+function getDefaultLoggingOptions(): Required<SseLoggerOptions> {
+  return {
+    level: import.meta.env?.PROD ? LogLevels.SILENT : LogLevels.INFO,
+    sink: consoleSink,
+    redactKeys: ['apikey', 'x-api-key'],
+  };
+}
+
+let globalOptions: Required<SseLoggerOptions> = getDefaultLoggingOptions();
+
+/**
+ * Sets the level, sink and redacted keys of every logger that doesn't set its own
+ * Options that are left out keep their current value.
+ * @param options Logging options
+ */
+export function configureLogging(options: SseLoggerOptions): void {
+  globalOptions = { ...globalOptions, ...options };
+}
+
+/**
+ * Restores the default logging configuration
+ */
+export function resetLogging(): void {
+  globalOptions = getDefaultLoggingOptions();
+}
+
+/**
+ * Namespaced, level-based logger
+ * Values of redacted keys are masked in messages (as query parameters) and in logged objects.
+ */
+export class SseLogger {
+  private namespace: string;
+  private options: SseLoggerOptions;
+
+  /**
+   * Creates a new logger
+   * @param namespace Subsystem the logger belongs to, e.g. 'sse:client'
+   * @param options Options overriding the global logging configuration
+   */
+  constructor(namespace: string, options: SseLoggerOptions = {}) {
+    this.namespace = namespace;
+    this.options = options;
+  }
+
+  /**
+   * Creates a logger for a part of this logger's subsystem, with the same options
+   * @param namespace Name appended to this logger's namespace
+   */
+  public child(namespace: string): SseLogger {
+    return new SseLogger(`${this.namespace}:${namespace}`, this.options);
+  }
+
+  /**
+   * Checks whether entries of a level are logged
+   */
+  public isEnabled(level: LogLevel): boolean {
+    const minimumLevel = this.options.level ?? globalOptions.level;
+    return level !== LogLevels.SILENT && levelPriority[level] >= levelPriority[minimumLevel];
+  }
+
+  /**
+   * Logs detailed diagnostics, such as event payloads
+   */
+  public debug(message: string, ...args: unknown[]): void {
+    this.log(LogLevels.DEBUG, message, args);
+  }
+
+  /**
+   * Logs connection lifecycle changes
+   */
+  public info(message: string, ...args: unknown[]): void {
+    this.log(LogLevels.INFO, message, args);
+  }
+
+  /**
+   * Logs recoverable problems
+   */
+  public warn(message: string, ...args: unknown[]): void {
+    this.log(LogLevels.WARN, message, args);
+  }
+
+  /**
+   * Logs failures
+   */
+  public error(message: string, ...args: unknown[]): void {
+    this.log(LogLevels.ERROR, message, args);
+  }
+
+  /**
+   * Redacts an entry and hands it to the sink, if its level is enabled
+   */
+  private log(level: LogRecord['level'], message: string, args: unknown[]): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const redactKeys = (this.options.redactKeys ?? globalOptions.redactKeys).map(key => key.toLowerCase());
+    const sink = this.options.sink ?? globalOptions.sink;
+
+    try {
+      sink({
+        level,
+        namespace: this.namespace,
+        message: redactString(message, redactKeys),
+        args: args.map(arg => redactValue(arg, redactKeys)),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      // A failing sink must never break the client
+      console.error('Log sink failed:', error);
+    }
+  }
+}
+
+/**
+ * Creates a logger for a subsystem
+ * @param namespace Subsystem the logger belongs to, e.g. 'sse:client'
+ * @param options Options overriding the global logging configuration
+ */
+export function createLogger(namespace: string, options?: SseLoggerOptions): SseLogger {
+  return new SseLogger(namespace, options);
+}
+
+/**
+ * Masks redacted keys used as query parameters, e.g. in URLs
+ */
+function redactString(value: string, redactKeys: string[]): string {
+  return value.replace(/([?&]([^=&#\s]+)=)([^&#\s]*)/g, (match, prefix: string, key: string) =>
+    redactKeys.includes(key.toLowerCase()) ? `${prefix}${REDACTED}` : match
+  );
+}
+
+/**
+ * Masks redacted keys in strings, plain objects and arrays
+ * Other objects, such as events and errors, are logged as they are.
+ */
+function redactValue(value: unknown, redactKeys: string[], depth = 0): unknown {
+  if (typeof value === 'string') {
+    return redactString(value, redactKeys);
+  }
+
+  if (depth > 5 || value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, redactKeys, depth + 1));
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    redacted[key] = redactKeys.includes(key.toLowerCase()) ? REDACTED : redactValue(entry, redactKeys, depth + 1);
+  });
+  return redacted;
+}
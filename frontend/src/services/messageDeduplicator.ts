@@ -0,0 +1,130 @@
+import type { SseEvent } from './sseService';
+
+/**
+ * Built-in deduplication keys
+ */
+export const DedupeKeys = {
+  /** The messageId field of the JSON payload */
+  MESSAGE_ID: 'messageId',
+  /** The SSE id field of the event */
+  EVENT_ID: 'eventId',
+} as const;
+
+export type DedupeKeyName = typeof DedupeKeys[keyof typeof DedupeKeys];
+
+/**
+ * Computes the deduplication key of an event
+ * @returns The key, or null if the event can't be deduplicated
+ */
+export type DedupeKeyFunction = (event: SseEvent) => string | null | undefined;
+
+/**
+ * Message deduplication options
+ */
+export interface SseDedupeOptions {
+  /** Key identifying an event, by name or as a function (default: 'messageId') */
+  key?: DedupeKeyName | DedupeKeyFunction;
+
+  /** Maximum number of keys remembered; the least recently seen are forgotten first (default: 1000) */
+  maxSize?: number;
+
+  /**
+   * Whether to store the remembered keys with the checkpoint, so replays after a reload are suppressed (default: false)
+   * The checkpoint is then written at most once per second, and when the client is closed.
+   */
+  persist?: boolean;
+}
+
+/**
+ * Message deduplicator
+ * Remembers the keys of recently delivered events in a bounded LRU.
+ */
+export class MessageDeduplicator {
+  private keyOf: DedupeKeyFunction;
+  private maxSize: number;
+  private seenKeys: Map<string, true> = new Map();
+
+  /**
+   * Creates a new message deduplicator
+   * @param options Deduplication options
+   */
+  constructor(options: SseDedupeOptions = {}) {
+    const key = options.key ?? DedupeKeys.MESSAGE_ID;
+    this.keyOf = typeof key === 'function' ? key : getBuiltInKeyFunction(key);
+    this.maxSize = options.maxSize ?? 1000;
+  }
+
+  /**
+   * Checks whether an event was seen before, and remembers it
+   * @param event Received event
+   * @returns True if the event is a duplicate
+   */
+  public isDuplicate(event: SseEvent): boolean {
+    const key = this.keyOf(event);
+    if (key === null || key === undefined || key === '') {
+      return false;
+    }
+
+    const duplicate = this.seenKeys.has(key);
+
+    // Move the key to the most recently seen end
+    this.seenKeys.delete(key);
+    this.seenKeys.set(key, true);
+
+    if (this.seenKeys.size > this.maxSize) {
+      const oldestKey = this.seenKeys.keys().next().value!;
+      this.seenKeys.delete(oldestKey);
+    }
+
+    return duplicate;
+  }
+
+  /**
+   * Gets the remembered keys, least recently seen first
+   */
+  public getKeys(): string[] {
+    return Array.from(this.seenKeys.keys());
+  }
+
+  /**
+   * Remembers previously stored keys, e.g. from a checkpoint
+   * @param keys Keys, least recently seen first
+   */
+  public restore(keys: string[]): void {
+    keys.slice(-this.maxSize).forEach(key => {
+      if (!this.seenKeys.has(key)) {
+        this.seenKeys.set(key, true);
+      }
+    });
+
+    while (this.seenKeys.size > this.maxSize) {
+      this.seenKeys.delete(this.seenKeys.keys().next().value!);
+    }
+  }
+
+  /**
+   * Forgets every key
+   */
+  public clear(): void {
+    this.seenKeys.clear();
+  }
+}
+
+/**
+ * Gets the key function for a built-in key name
+ */
+function getBuiltInKeyFunction(name: DedupeKeyName): DedupeKeyFunction {
+  if (name === DedupeKeys.EVENT_ID) {
+    return (event) => event.id;
+  }
+
+  return (event) => {
+    try {
+      const messageId = JSON.parse(event.data)?.messageId;
+      return typeof messageId === 'string' ? messageId : null;
+    } catch {
+      // Not JSON; the event can't be deduplicated by messageId
+      return null;
+    }
+  };
+}
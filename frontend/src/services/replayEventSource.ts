@@ -0,0 +1,313 @@
+import type { SseEventSource } from './sseService';
+import { getEventTypeForFilter } from '../models/sseEventTypes';
+import { parseRecording } from './sseRecorder';
+import type { SseRecordedFrame } from './sseRecorder';
+
+/**
+ * Replay options
+ */
+export interface SseReplayOptions {
+  /** Playback speed, e.g. 2 for twice as fast (default: 1) */
+  speed?: number;
+
+  /** Whether playback starts as soon as a client connects; otherwise frames are delivered by play() or step() (default: true) */
+  autoPlay?: boolean;
+}
+
+/**
+ * Playback state of a replay
+ */
+export interface SseReplayState {
+  /** Number of frames delivered */
+  position: number;
+
+  /** Number of frames in the recording */
+  total: number;
+
+  /** Whether frames are delivered on their recorded timing */
+  playing: boolean;
+
+  /** Playback speed */
+  speed: number;
+}
+
+/**
+ * Replay of a recorded session
+ * Pass it as the replay option of SseClient (or the useSse hooks) to receive the recorded
+ * frames instead of connecting to the server. The position survives reconnections, and
+ * every connected client receives each frame its filter matches.
+ */
+export class SseReplay {
+  private frames: SseRecordedFrame[];
+  private position = 0;
+  private speed: number;
+  private playing: boolean;
+  private timer: number | null = null;
+  private sources: Set<ReplayEventSource> = new Set();
+  private stateListeners: Set<(state: SseReplayState) => void> = new Set();
+
+  /**
+   * Creates a new replay
+   * @param recording Recorded frames, or the contents of an NDJSON recording
+   * @param options Replay options
+   */
+  constructor(recording: SseRecordedFrame[] | string, options: SseReplayOptions = {}) {
+    this.frames = typeof recording === 'string' ? parseRecording(recording) : [...recording].sort((a, b) => a.t - b.t);
+    this.speed = options.speed ?? 1;
+    this.playing = options.autoPlay ?? true;
+  }
+
+  /**
+   * Creates an event source that receives the replayed frames
+   * @param filter Event filter of the client, applied like the server applies it
+   */
+  public createEventSource(filter?: string): ReplayEventSource {
+    return new ReplayEventSource(this, filter);
+  }
+
+  /**
+   * Gets the playback state
+   */
+  public getState(): SseReplayState {
+    return {
+      position: this.position,
+      total: this.frames.length,
+      playing: this.playing,
+      speed: this.speed,
+    };
+  }
+
+  /**
+   * Calls a listener whenever the playback state changes
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: (state: SseReplayState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Delivers the remaining frames on their recorded timing
+   */
+  public play(): void {
+    if (this.position >= this.frames.length) {
+      return;
+    }
+
+    this.playing = true;
+    this.schedule();
+    this.notifyStateListeners();
+  }
+
+  /**
+   * Stops delivering frames until play() or step() is called
+   */
+  public pause(): void {
+    this.playing = false;
+    this.clearTimer();
+    this.notifyStateListeners();
+  }
+
+  /**
+   * Delivers the next frame immediately
+   * Does nothing until a client is connected, since nobody would receive the frame.
+   */
+  public step(): void {
+    if (this.sources.size === 0) {
+      return;
+    }
+
+    this.deliverNextFrame();
+    this.schedule();
+  }
+
+  /**
+   * Changes the playback speed
+   * @param speed Playback speed, e.g. 2 for twice as fast
+   */
+  public setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error(`Invalid replay speed: ${speed}`);
+    }
+
+    this.speed = speed;
+    this.schedule();
+    this.notifyStateListeners();
+  }
+
+  /**
+   * Goes back to the start of the recording
+   */
+  public rewind(): void {
+    this.position = 0;
+    Array.from(this.sources).forEach(source => source.onrewind?.());
+    this.schedule();
+    this.notifyStateListeners();
+  }
+
+  /**
+   * Starts delivering frames to an opened event source
+   */
+  public attach(source: ReplayEventSource): void {
+    this.sources.add(source);
+    this.schedule();
+  }
+
+  /**
+   * Stops delivering frames to a closed event source
+   */
+  public detach(source: ReplayEventSource): void {
+    this.sources.delete(source);
+    if (this.sources.size === 0) {
+      this.clearTimer();
+    }
+  }
+
+  /**
+   * Schedules the next frame at its recorded delay after the previous one
+   */
+  private schedule(): void {
+    this.clearTimer();
+
+    if (!this.playing || this.sources.size === 0 || this.position >= this.frames.length) {
+      return;
+    }
+
+    const previousTime = this.position > 0 ? this.frames[this.position - 1].t : 0;
+    const delay = Math.max(this.frames[this.position].t - previousTime, 0) / this.speed;
+
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.deliverNextFrame();
+      this.schedule();
+    }, delay);
+  }
+
+  /**
+   * Delivers the next frame to every attached event source
+   */
+  private deliverNextFrame(): void {
+    const frame = this.frames[this.position];
+    if (!frame) {
+      return;
+    }
+
+    this.position++;
+    if (this.position >= this.frames.length) {
+      this.playing = false;
+    }
+
+    Array.from(this.sources).forEach(source => source.dispatch(frame));
+    this.notifyStateListeners();
+  }
+
+  /**
+   * Cancels the scheduled frame
+   */
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Passes the playback state to the state listeners
+   */
+  private notifyStateListeners(): void {
+    const state = this.getState();
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
+
+/**
+ * Event source receiving the frames of a replay
+ * Opens right away and never fails; after the last frame it stays open like an idle stream.
+ * Like a filtered connection, it only receives frames of the filtered type and connected frames.
+ */
+export class ReplayEventSource implements SseEventSource {
+  public onopen: ((event: Event) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+
+  /** Called when the replay goes back to the start, before the first frame is delivered again */
+  public onrewind: (() => void) | null = null;
+
+  private replay: SseReplay;
+  private filter: string | null;
+  private listeners: Map<string, ((event: MessageEvent) => void)[]> = new Map();
+  private closed = false;
+
+  /**
+   * Creates a new replay event source and opens it once its handlers are set
+   * @param replay Replay whose frames are received
+   * @param filter Event filter; frames of other types are dropped
+   */
+  constructor(replay: SseReplay, filter?: string) {
+    this.replay = replay;
+    this.filter = filter ? getEventTypeForFilter(filter).toLowerCase() : null;
+
+    window.setTimeout(() => {
+      if (this.closed) {
+        return;
+      }
+
+      this.onopen?.(new Event('open'));
+      this.replay.attach(this);
+    }, 0);
+  }
+
+  /**
+   * Adds an event listener for a specific event type
+   */
+  public addEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    const listeners = this.listeners.get(type) || [];
+    listeners.push(listener);
+    this.listeners.set(type, listeners);
+  }
+
+  /**
+   * Removes an event listener for a specific event type
+   */
+  public removeEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) {
+      return;
+    }
+
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Stops receiving frames
+   */
+  public close(): void {
+    this.closed = true;
+    this.replay.detach(this);
+  }
+
+  /**
+   * Dispatches a replayed frame like EventSource dispatches a received event
+   */
+  public dispatch(frame: SseRecordedFrame): void {
+    if (this.filter && frame.type !== 'connected' && frame.type.toLowerCase() !== this.filter) {
+      return;
+    }
+
+    const event = new MessageEvent(frame.type, {
+      data: frame.data,
+      lastEventId: frame.id ?? '',
+    });
+
+    if (frame.type === 'message') {
+      this.onmessage?.(event);
+    }
+
+    (this.listeners.get(frame.type) || []).slice().forEach(listener => listener(event));
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SseApiClient, SseApiError, SseApiHttpError, SseApiNetworkError } from './sseApiClient';
+
+/**
+ * Creates a fetch stub answering every request with a response
+ */
+function stubFetch(response: () => Response) {
+  return vi.fn<typeof fetch>(async () => response());
+}
+
+describe('SseApiClient', () => {
+  it('posts typed bodies with the API key to the base URL', async () => {
+    const fetch = stubFetch(() => Response.json({ message: 'Alert sent to client a/b successfully' }));
+    const client = new SseApiClient({ baseUrl: 'https://sse.example.com/', apiKey: 'secret', fetch });
+
+    const result = await client.sendAlertToClient('a/b', { message: 'Disk full', severity: 'critical' });
+
+    expect(result.message).toBe('Alert sent to client a/b successfully');
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://sse.example.com/api/sse/alert/a%2Fb');
+    expect(init?.method).toBe('POST');
+    expect(init?.headers).toEqual({ 'Content-Type': 'application/json', 'X-API-Key': 'secret' });
+    expect(JSON.parse(init?.body as string)).toEqual({ message: 'Disk full', severity: 'critical' });
+  });
+
+  it('gets the demo status without a body', async () => {
+    const fetch = stubFetch(() => Response.json({ isRunning: true, message: 'Demo is running' }));
+    const client = new SseApiClient({ baseUrl: '', fetch });
+
+    const status = await client.getDemoStatus();
+
+    expect(status.isRunning).toBe(true);
+    expect(fetch).toHaveBeenCalledWith('/api/demo/status', { method: 'GET', headers: {}, body: undefined });
+  });
+
+  it('throws SseApiHttpError with the response body for error statuses', async () => {
+    const fetch = stubFetch(() => new Response('Message is required', { status: 400, statusText: 'Bad Request' }));
+    const client = new SseApiClient({ baseUrl: '', fetch });
+
+    const error = await client.sendNotification({ message: '' }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(SseApiHttpError);
+    expect(error).toBeInstanceOf(SseApiError);
+    expect(error).toMatchObject({ status: 400, body: 'Message is required', message: 'Message is required', isUnauthorized: false });
+  });
+
+  it('marks rejected API keys as unauthorized', async () => {
+    const fetch = stubFetch(() => new Response('Unauthorized. Please provide a valid API key.', { status: 401 }));
+    const client = new SseApiClient({ baseUrl: '', apiKey: 'wrong', fetch });
+
+    await expect(client.stopDemo()).rejects.toMatchObject({ status: 401, isUnauthorized: true });
+  });
+
+  it('throws SseApiNetworkError when the backend is unreachable', async () => {
+    const failingFetch = vi.fn<typeof fetch>(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    const client = new SseApiClient({ baseUrl: '', fetch: failingFetch });
+
+    const error = await client.broadcast({ data: '{}' }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(SseApiNetworkError);
+    expect(error).toMatchObject({ url: '/api/sse/broadcast', message: 'Request to /api/sse/broadcast failed: Failed to fetch' });
+  });
+});
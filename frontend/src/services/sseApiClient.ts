@@ -0,0 +1,311 @@
+import { createLogger } from './logger';
+import type { SseLogger } from './logger';
+
+/**
+ * Body of the broadcast and send endpoints, mirrors BroadcastRequest in SseController.cs
+ */
+export interface BroadcastRequest {
+  /** Event type (default: message) */
+  eventType?: string;
+
+  /** Event data, sent as is; usually JSON */
+  data: string;
+}
+
+/**
+ * Severity of a notification
+ */
+export type NotificationSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * Body of the notification endpoints, mirrors NotificationRequest in SseController.cs
+ */
+export interface NotificationRequest {
+  message: string;
+
+  /** Severity (default: info) */
+  severity?: NotificationSeverity;
+}
+
+/**
+ * Body of the data-update endpoints, mirrors DataUpdateRequest in SseController.cs
+ */
+export interface DataUpdateRequest {
+  entityId: string;
+  entityType: string;
+
+  /** Changed fields (default: {}) */
+  changes?: Record<string, unknown>;
+}
+
+/**
+ * Severity of an alert
+ */
+export type AlertSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/**
+ * Body of the alert endpoints, mirrors AlertRequest in SseController.cs
+ */
+export interface AlertRequest {
+  message: string;
+
+  /** Severity (default: high) */
+  severity?: AlertSeverity;
+
+  /** Category (default: system) */
+  category?: string;
+}
+
+/**
+ * Body of the demo start endpoint, mirrors DemoRequest in DemoController.cs
+ */
+export interface DemoRequest {
+  /** Seconds between demo events, 1 to 60 (default: 5) */
+  intervalSeconds?: number;
+}
+
+/**
+ * Response of the send endpoints and the demo stop endpoint
+ */
+export interface SseApiMessageResponse {
+  message: string;
+}
+
+/**
+ * Response of the demo start endpoint
+ */
+export interface DemoStartResponse extends SseApiMessageResponse {
+  intervalSeconds: number;
+  info: string;
+}
+
+/**
+ * Response of the demo status endpoint
+ */
+export interface DemoStatusResponse extends SseApiMessageResponse {
+  isRunning: boolean;
+}
+
+/**
+ * Options for the API client
+ */
+export interface SseApiClientOptions {
+  /** Base URL of the backend, without /api (default: VITE_API_URL, or the current origin) */
+  baseUrl?: string;
+
+  /** API key sent as the X-API-Key header */
+  apiKey?: string;
+
+  /** Fetch implementation (default: the global fetch) */
+  fetch?: typeof fetch;
+
+  /** Logger for requests (default: the 'sse:api' logger) */
+  logger?: SseLogger;
+}
+
+/**
+ * Base class of the errors thrown by SseApiClient
+ */
+export class SseApiError extends Error {
+  /** URL of the failed request */
+  public readonly url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    this.name = 'SseApiError';
+    this.url = url;
+  }
+}
+
+/**
+ * Error thrown when the backend responds with a non-2xx status
+ */
+export class SseApiHttpError extends SseApiError {
+  /** HTTP status code of the response */
+  public readonly status: number;
+
+  /** HTTP status text of the response */
+  public readonly statusText: string;
+
+  /** Response body; the backend explains validation failures here (e.g. "Message is required") */
+  public readonly body: string;
+
+  constructor(url: string, status: number, statusText: string, body: string) {
+    super(body || `HTTP error! status: ${status}`, url);
+    this.name = 'SseApiHttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+
+  /**
+   * Whether the API key was missing or rejected
+   */
+  public get isUnauthorized(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
+
+/**
+ * Error thrown when the backend can't be reached or responds with invalid JSON
+ */
+export class SseApiNetworkError extends SseApiError {
+  /** The underlying error */
+  public readonly cause: unknown;
+
+  constructor(url: string, cause: unknown) {
+    super(`Request to ${url} failed: ${cause instanceof Error ? cause.message : String(cause)}`, url);
+    this.name = 'SseApiNetworkError';
+    this.cause = cause;
+  }
+}
+
+const defaultLogger = createLogger('sse:api');
+
+/**
+ * Client for the publishing endpoints of SseController and the endpoints of DemoController
+ * Failed requests throw SseApiHttpError for error responses and SseApiNetworkError when
+ * the backend can't be reached.
+ */
+export class SseApiClient {
+  private baseUrl: string;
+  private apiKey: string | undefined;
+  private fetchFn: typeof fetch;
+  private logger: SseLogger;
+
+  /**
+   * Creates a new API client
+   * @param options API client options
+   */
+  constructor(options: SseApiClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? import.meta.env?.VITE_API_URL ?? '').replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  /**
+   * Sends an event to all connected clients
+   */
+  public broadcast(request: BroadcastRequest): Promise<SseApiMessageResponse> {
+    return this.post('/api/sse/broadcast', request);
+  }
+
+  /**
+   * Sends an event to one client
+   */
+  public sendToClient(clientId: string, request: BroadcastRequest): Promise<SseApiMessageResponse> {
+    return this.post(`/api/sse/send/${encodeURIComponent(clientId)}`, request);
+  }
+
+  /**
+   * Sends a notification to all connected clients
+   */
+  public sendNotification(request: NotificationRequest): Promise<SseApiMessageResponse> {
+    return this.post('/api/sse/notification', request);
+  }
+
+  /**
+   * Sends a notification to one client
+   */
+  public sendNotificationToClient(clientId: string, request: NotificationRequest): Promise<SseApiMessageResponse> {
+    return this.post(`/api/sse/notification/${encodeURIComponent(clientId)}`, request);
+  }
+
+  /**
+   * Sends a data update to all connected clients
+   */
+  public sendDataUpdate(request: DataUpdateRequest): Promise<SseApiMessageResponse> {
+    return this.post('/api/sse/data-update', request);
+  }
+
+  /**
+   * Sends a data update to one client
+   */
+  public sendDataUpdateToClient(clientId: string, request: DataUpdateRequest): Promise<SseApiMessageResponse> {
+    return this.post(`/api/sse/data-update/${encodeURIComponent(clientId)}`, request);
+  }
+
+  /**
+   * Sends an alert to all connected clients
+   */
+  public sendAlert(request: AlertRequest): Promise<SseApiMessageResponse> {
+    return this.post('/api/sse/alert', request);
+  }
+
+  /**
+   * Sends an alert to one client
+   */
+  public sendAlertToClient(clientId: string, request: AlertRequest): Promise<SseApiMessageResponse> {
+    return this.post(`/api/sse/alert/${encodeURIComponent(clientId)}`, request);
+  }
+
+  /**
+   * Starts sending demo events on a timer
+   */
+  public startDemo(request: DemoRequest = {}): Promise<DemoStartResponse> {
+    return this.post('/api/demo/start', request);
+  }
+
+  /**
+   * Stops sending demo events
+   */
+  public stopDemo(): Promise<SseApiMessageResponse> {
+    return this.post('/api/demo/stop');
+  }
+
+  /**
+   * Gets whether demo events are being sent
+   */
+  public getDemoStatus(): Promise<DemoStatusResponse> {
+    return this.request('GET', '/api/demo/status');
+  }
+
+  /**
+   * Sends a POST request with an optional JSON body
+   */
+  private post<T>(path: string, body?: object): Promise<T> {
+    return this.request('POST', path, body);
+  }
+
+  /**
+   * Sends a request and parses the JSON response
+   * @throws SseApiHttpError for a non-2xx response
+   * @throws SseApiNetworkError when the request fails or the response isn't JSON
+   */
+  private async request<T>(method: string, path: string, body?: object): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const headers: Record<string, string> = {};
+
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.apiKey) {
+      headers['X-API-Key'] = this.apiKey;
+    }
+
+    this.logger.debug(`${method} ${url}`, body);
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(url, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      throw new SseApiNetworkError(url, error);
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new SseApiHttpError(url, response.status, response.statusText, text);
+    }
+
+    try {
+      return await response.json() as T;
+    } catch (error) {
+      throw new SseApiNetworkError(url, error);
+    }
+  }
+}
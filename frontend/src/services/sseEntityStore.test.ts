@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SseEntityStore } from './sseEntityStore';
+import { SseClient } from './sseService';
+import { MemoryCheckpointStore } from './checkpointStore';
+import { FakeEventSource } from '../test/fakeEventSource';
+
+/**
+ * Builds a data update payload
+ */
+function dataUpdate(entityType: string, entityId: string, changes: Record<string, unknown>) {
+  return {
+    type: 'dataUpdate',
+    messageId: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    entityType,
+    entityId,
+    changes,
+  };
+}
+
+describe('SseEntityStore', () => {
+  it('merges the changes of each update into the entity it targets', () => {
+    const store = new SseEntityStore();
+
+    store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'new', total: 10 } });
+    const created = store.getEntity('order', '1');
+    store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'shipped' } });
+
+    expect(store.getEntity('order', '1')).toEqual({ status: 'shipped', total: 10 });
+    expect(created).toEqual({ status: 'new', total: 10 });
+    expect(store.getEntity('customer', '1')).toBeUndefined();
+  });
+
+  it('keeps the collection of a type until one of its entities changes', () => {
+    const store = new SseEntityStore();
+    store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'new' } });
+    const orders = store.getEntities('order');
+
+    store.applyUpdate({ entityType: 'customer', entityId: '1', changes: { name: 'Ada' } });
+    expect(store.getEntities('order')).toBe(orders);
+
+    store.applyUpdate({ entityType: 'order', entityId: '2', changes: { status: 'new' } });
+    expect(Object.keys(store.getEntities('order'))).toEqual(['1', '2']);
+  });
+
+  it('notifies the listeners of the changed entity and its type only', () => {
+    const store = new SseEntityStore();
+    const first = vi.fn();
+    const second = vi.fn();
+    const orders = vi.fn();
+    store.subscribeEntity('order', '1', first);
+    store.subscribeEntity('order', '2', second);
+    const unsubscribe = store.subscribeEntities('order', orders);
+
+    store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'new' } });
+    unsubscribe();
+    store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'shipped' } });
+
+    expect(first).toHaveBeenCalledTimes(2);
+    expect(second).not.toHaveBeenCalled();
+    expect(orders).toHaveBeenCalledTimes(1);
+  });
+
+  it('seeds entities, optionally replacing the entities of the type', () => {
+    const store = new SseEntityStore();
+    store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'new' } });
+
+    store.seed('order', { 2: { status: 'new' } });
+    expect(Object.keys(store.getEntities('order'))).toEqual(['1', '2']);
+
+    store.seed('order', { 3: { status: 'paid' } }, { replace: true });
+    expect(store.getEntities('order')).toEqual({ 3: { status: 'paid' } });
+  });
+
+  it('evicts the least recently written entities beyond the limit', () => {
+    const store = new SseEntityStore({ maxEntitiesPerType: 2 });
+    const evicted = vi.fn();
+    store.subscribeEntity('order', '2', evicted);
+
+    store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'new' } });
+    store.applyUpdate({ entityType: 'order', entityId: '2', changes: { status: 'new' } });
+    store.applyUpdate({ entityType: 'order', entityId: '1', changes: { status: 'paid' } });
+    store.applyUpdate({ entityType: 'order', entityId: '3', changes: { status: 'new' } });
+
+    expect(Object.keys(store.getEntities('order'))).toEqual(['1', '3']);
+    expect(evicted).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts entities on request', () => {
+    const store = new SseEntityStore();
+    store.seed('order', { 1: { status: 'new' }, 2: { status: 'new' } });
+    store.seed('customer', { 1: { name: 'Ada' } });
+
+    store.evict('order', '1');
+    expect(Object.keys(store.getEntities('order'))).toEqual(['2']);
+
+    store.clear('order');
+    expect(store.getEntities('order')).toEqual({});
+    expect(store.getEntity('customer', '1')).toEqual({ name: 'Ada' });
+
+    store.clear();
+    expect(store.getEntities('customer')).toEqual({});
+  });
+
+  it('applies the valid data updates received by an attached client', async () => {
+    const store = new SseEntityStore();
+    const client = new SseClient({ url: '/api/sse/connect', checkpointStore: new MemoryCheckpointStore() });
+    const detach = store.attach(client);
+    client.connect();
+    await client.whenCheckpointLoaded();
+    const source = FakeEventSource.latest();
+
+    source.emit('dataUpdate', dataUpdate('order', '1', { status: 'new' }));
+    source.message(dataUpdate('order', '2', { status: 'new' }));
+    source.emit('dataUpdate', { ...dataUpdate('order', '3', {}), entityId: undefined });
+    detach();
+    source.emit('dataUpdate', dataUpdate('order', '1', { status: 'shipped' }));
+    client.close();
+
+    expect(store.getEntities('order')).toEqual({ 1: { status: 'new' }, 2: { status: 'new' } });
+  });
+});
@@ -0,0 +1,284 @@
+import type { SseClient, SseEvent } from './sseService';
+import { createLogger } from './logger';
+import type { SseLogger } from './logger';
+import { SseEventTypes } from '../models/sseEventTypes';
+import type { DataUpdatePayload } from '../models/sseMessages';
+import { DataUpdateSchema } from '../models/sseSchemas';
+
+/**
+ * An entity: the fields accumulated from its seed and data updates
+ */
+export type SseEntity = Record<string, unknown>;
+
+/**
+ * The entities of one type, by ID
+ * Collections are immutable: every change of an entity of the type creates a new one.
+ */
+export type SseEntityCollection<T extends SseEntity = SseEntity> = Readonly<Record<string, T>>;
+
+/**
+ * A data update as applied to the store
+ */
+export type SseEntityUpdate = Pick<DataUpdatePayload, 'entityType' | 'entityId' | 'changes'>;
+
+/**
+ * Entity store options
+ */
+export interface SseEntityStoreOptions {
+  /** Maximum number of entities kept per type; the least recently written are evicted first (default: 1000) */
+  maxEntitiesPerType?: number;
+
+  /** Logger for dropped updates (default: the 'sse:entities' logger) */
+  logger?: SseLogger;
+}
+
+/**
+ * Seeding options
+ */
+export interface SseEntitySeedOptions {
+  /** Whether to drop the entities of the type that aren't in the seed (default: false) */
+  replace?: boolean;
+}
+
+const EMPTY_COLLECTION: SseEntityCollection = Object.freeze({});
+
+/**
+ * Entity store
+ * Keeps a normalized copy of the entities targeted by dataUpdate events: each update's
+ * changes are merged into the entity with its type and ID. Entities are immutable, so a
+ * changed entity is a new object, and listeners are notified per entity or per type.
+ */
+export class SseEntityStore {
+  private collections: Map<string, Map<string, SseEntity>> = new Map();
+  private snapshots: Map<string, SseEntityCollection> = new Map();
+  private entityListeners: Map<string, Set<() => void>> = new Map();
+  private typeListeners: Map<string, Set<() => void>> = new Map();
+  private maxEntitiesPerType: number;
+  private logger: SseLogger;
+
+  /**
+   * Creates a new entity store
+   * @param options Entity store options
+   */
+  constructor(options: SseEntityStoreOptions = {}) {
+    this.maxEntitiesPerType = options.maxEntitiesPerType ?? 1000;
+    this.logger = options.logger ?? createLogger('sse:entities');
+  }
+
+  /**
+   * Gets an entity
+   * @param entityType Entity type
+   * @param id Entity ID
+   * @returns The entity, or undefined if the store doesn't hold it
+   */
+  public getEntity<T extends SseEntity = SseEntity>(entityType: string, id: string): T | undefined {
+    return this.collections.get(entityType)?.get(id) as T | undefined;
+  }
+
+  /**
+   * Gets the entities of a type
+   * @param entityType Entity type
+   * @returns The entities by ID; the same object until an entity of the type changes
+   */
+  public getEntities<T extends SseEntity = SseEntity>(entityType: string): SseEntityCollection<T> {
+    let snapshot = this.snapshots.get(entityType);
+    if (!snapshot) {
+      const collection = this.collections.get(entityType);
+      snapshot = collection ? Object.freeze(Object.fromEntries(collection)) : EMPTY_COLLECTION;
+      this.snapshots.set(entityType, snapshot);
+    }
+    return snapshot as SseEntityCollection<T>;
+  }
+
+  /**
+   * Merges the changes of a data update into the entity it targets, creating the entity if needed
+   * @param update Data update
+   */
+  public applyUpdate(update: SseEntityUpdate): void {
+    const previous = this.getEntity(update.entityType, update.entityId);
+    this.write(update.entityType, [[update.entityId, { ...previous, ...update.changes }]]);
+  }
+
+  /**
+   * Adds entities loaded from elsewhere (e.g. a REST call), replacing the entities with the same IDs
+   * @param entityType Entity type
+   * @param entities Entities by ID
+   * @param options Seeding options
+   */
+  public seed<T extends SseEntity>(entityType: string, entities: Record<string, T>, options: SseEntitySeedOptions = {}): void {
+    const removed = options.replace
+      ? this.remove(entityType, Array.from(this.collections.get(entityType)?.keys() ?? []).filter(id => !(id in entities)))
+      : [];
+
+    this.write(entityType, Object.entries(entities), removed);
+  }
+
+  /**
+   * Removes an entity
+   * @param entityType Entity type
+   * @param id Entity ID
+   */
+  public evict(entityType: string, id: string): void {
+    this.notify(entityType, new Set(this.remove(entityType, [id])));
+  }
+
+  /**
+   * Removes every entity of a type, or of every type
+   * @param entityType Entity type; every type when omitted
+   */
+  public clear(entityType?: string): void {
+    const types = entityType === undefined ? Array.from(this.collections.keys()) : [entityType];
+    types.forEach(type => {
+      this.notify(type, new Set(this.remove(type, Array.from(this.collections.get(type)?.keys() ?? []))));
+    });
+  }
+
+  /**
+   * Registers a listener for changes of one entity, including its eviction
+   * @returns Function that removes the listener
+   */
+  public subscribeEntity(entityType: string, id: string, listener: () => void): () => void {
+    return addListener(this.entityListeners, entityKey(entityType, id), listener);
+  }
+
+  /**
+   * Registers a listener for changes of any entity of a type
+   * @returns Function that removes the listener
+   */
+  public subscribeEntities(entityType: string, listener: () => void): () => void {
+    return addListener(this.typeListeners, entityType, listener);
+  }
+
+  /**
+   * Applies the data updates received by a client
+   * Payloads that don't match the DataUpdate schema are dropped.
+   * @param client SSE client
+   * @returns Function that stops applying the client's updates
+   */
+  public attach(client: SseClient): () => void {
+    return client.subscribe((event) => this.handleEvent(event));
+  }
+
+  /**
+   * Applies an event if it is a data update
+   */
+  private handleEvent(event: SseEvent): void {
+    if (event.event && event.event !== SseEventTypes.DataUpdate && event.event !== SseEventTypes.Message) {
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    if ((json as { type?: unknown } | null)?.type !== SseEventTypes.DataUpdate) {
+      return;
+    }
+
+    const result = DataUpdateSchema.safeParse(json);
+    if (!result.success) {
+      this.logger.warn('Dropped invalid data update:', result.error);
+      return;
+    }
+
+    this.applyUpdate(result.data);
+  }
+
+  /**
+   * Stores entities as the most recently written of their type, evicting the oldest beyond the limit
+   * @param removed IDs of entities already removed, notified together with the written ones
+   */
+  private write(entityType: string, entries: [string, SseEntity][], removed: string[] = []): void {
+    const changed = new Set(removed);
+
+    if (entries.length > 0) {
+      let collection = this.collections.get(entityType);
+      if (!collection) {
+        collection = new Map();
+        this.collections.set(entityType, collection);
+      }
+
+      for (const [id, entity] of entries) {
+        // Re-inserting moves the entity to the end of the eviction order
+        collection.delete(id);
+        collection.set(id, entity);
+        changed.add(id);
+      }
+
+      for (const id of collection.keys()) {
+        if (collection.size <= this.maxEntitiesPerType) {
+          break;
+        }
+        collection.delete(id);
+        changed.add(id);
+      }
+    }
+
+    this.notify(entityType, changed);
+  }
+
+  /**
+   * Removes entities of a type without notifying the listeners
+   * @returns IDs of the entities that were removed
+   */
+  private remove(entityType: string, ids: string[]): string[] {
+    const collection = this.collections.get(entityType);
+    if (!collection) {
+      return [];
+    }
+
+    const removed = ids.filter(id => collection.delete(id));
+    if (collection.size === 0) {
+      this.collections.delete(entityType);
+    }
+    return removed;
+  }
+
+  /**
+   * Drops the cached collection of a type and notifies the listeners of the changed entities
+   */
+  private notify(entityType: string, ids: Set<string>): void {
+    if (ids.size === 0) {
+      return;
+    }
+
+    this.snapshots.delete(entityType);
+    ids.forEach(id => this.entityListeners.get(entityKey(entityType, id))?.forEach(listener => listener()));
+    this.typeListeners.get(entityType)?.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared entity store, used by useEntity and useEntities unless they are given another store
+ */
+export const sseEntityStore = new SseEntityStore();
+
+/**
+ * Gets the listener key of an entity
+ */
+function entityKey(entityType: string, id: string): string {
+  return `${entityType}\u0000${id}`;
+}
+
+/**
+ * Adds a listener to a set of listeners by key
+ * @returns Function that removes the listener
+ */
+function addListener(listeners: Map<string, Set<() => void>>, key: string, listener: () => void): () => void {
+  let set = listeners.get(key);
+  if (!set) {
+    set = new Set();
+    listeners.set(key, set);
+  }
+  set.add(listener);
+
+  return () => {
+    set.delete(listener);
+    if (set.size === 0 && listeners.get(key) === set) {
+      listeners.delete(key);
+    }
+  };
+}
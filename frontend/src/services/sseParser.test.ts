@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SseParser, parseEventStream } from './sseParser';
+import type { SseEvent } from './sseService';
+
+/**
+ * Creates a parser that collects the events it dispatches
+ */
+function createParser(lastEventId?: string) {
+  const events: SseEvent[] = [];
+  const onRetry = vi.fn();
+  const onComment = vi.fn();
+  const parser = new SseParser({ onEvent: event => events.push(event), onRetry, onComment }, lastEventId);
+  return { parser, events, onRetry, onComment };
+}
+
+describe('SseParser', () => {
+  it('joins multi-line data with line feeds', () => {
+    const { parser, events } = createParser();
+
+    parser.feed('event: update\ndata: first\ndata:second\ndata\n\n');
+
+    expect(events).toEqual([{ id: undefined, event: 'update', data: 'first\nsecond\n' }]);
+  });
+
+  it('ignores blocks without data', () => {
+    const { parser, events } = createParser();
+
+    parser.feed('event: update\n\ndata: payload\n\n');
+
+    expect(events).toEqual([{ id: undefined, event: 'message', data: 'payload' }]);
+  });
+
+  it.each([
+    ['LF', '\n'],
+    ['CR', '\r'],
+    ['CRLF', '\r\n'],
+  ])('splits lines on %s', (_name, eol) => {
+    const { parser, events } = createParser();
+
+    parser.feed(`data: a${eol}data: b${eol}${eol}data: c${eol}${eol}`);
+
+    expect(events.map(event => event.data)).toEqual(['a\nb', 'c']);
+  });
+
+  it('treats a CRLF split across chunks as one line break', () => {
+    const { parser, events } = createParser();
+
+    parser.feed('data: a\r');
+    parser.feed('\ndata: b\r');
+    parser.feed('');
+    parser.feed('\ndata: c\r');
+    parser.feed(new Uint8Array());
+    parser.feed('\n\r\n');
+
+    expect(events.map(event => event.data)).toEqual(['a\nb\nc']);
+  });
+
+  it('reassembles lines and multi-byte characters split across chunks', () => {
+    const { parser, events } = createParser();
+    const bytes = new TextEncoder().encode('data: café\n\n');
+
+    parser.feed(bytes.slice(0, 10));
+    parser.feed(bytes.slice(10));
+
+    expect(events.map(event => event.data)).toEqual(['café']);
+  });
+
+  it('strips a leading byte order mark only', () => {
+    const { parser, events } = createParser();
+
+    parser.feed('﻿data: a\n\n');
+    parser.feed('﻿data: b\n\n');
+
+    expect(events.map(event => event.data)).toEqual(['a']);
+  });
+
+  it('reports comments without dispatching events', () => {
+    const { parser, events, onComment } = createParser();
+
+    parser.feed(': keepalive\n:raw\n\n');
+
+    expect(onComment).toHaveBeenNthCalledWith(1, 'keepalive');
+    expect(onComment).toHaveBeenNthCalledWith(2, 'raw');
+    expect(events).toEqual([]);
+  });
+
+  it('reports numeric retry fields and ignores others', () => {
+    const { parser, events, onRetry } = createParser();
+
+    parser.feed('retry: 5000\nretry: soon\ndata: a\n\n');
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenCalledWith(5000);
+    expect(events[0].retry).toBe(5000);
+  });
+
+  it('keeps the last event ID across events and ignores IDs containing NUL', () => {
+    const { parser, events } = createParser('initial');
+
+    parser.feed('data: a\n\nid: 1\ndata: b\n\ndata: c\n\nid: 2\0\ndata: d\n\n');
+
+    expect(events.map(event => event.id)).toEqual(['initial', '1', '1', '1']);
+    expect(parser.getLastEventId()).toBe('1');
+  });
+
+  it('discards an incomplete event at the end of the stream', () => {
+    const { parser, events } = createParser();
+
+    parser.feed('data: a\n\ndata: b\n');
+    parser.end();
+    parser.feed('\n');
+
+    expect(events.map(event => event.data)).toEqual(['a']);
+  });
+});
+
+describe('parseEventStream', () => {
+  it('parses a complete stream', () => {
+    const stream = '﻿: connected\r\nid: 1\r\nevent: notification\r\ndata: {"a":1}\r\n\r\nid: 2\r\ndata: x\r\ndata: y\r\n\r\ndata: unterminated';
+
+    expect(parseEventStream(stream)).toEqual([
+      { id: '1', event: 'notification', data: '{"a":1}' },
+      { id: '2', event: 'message', data: 'x\ny' },
+    ]);
+  });
+});
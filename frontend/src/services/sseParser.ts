@@ -0,0 +1,214 @@
+import type { SseEvent } from './sseService';
+
+/**
+ * Callbacks invoked by the SSE parser
+ */
+export interface SseParserCallbacks {
+  /** Called for every dispatched event */
+  onEvent: (event: SseEvent) => void;
+
+  /** Called when a valid retry field is received */
+  onRetry?: (retry: number) => void;
+
+  /** Called for comment lines (e.g. ": keepalive") */
+  onComment?: (comment: string) => void;
+}
+
+/**
+ * Incremental parser for the text/event-stream format
+ * Follows the WHATWG HTML "event stream interpretation" rules: multi-line data,
+ * id/event/retry fields, comments, CRLF/LF/CR line endings and chunks that split
+ * anywhere (including between CR and LF or inside a multi-byte character).
+ */
+export class SseParser {
+  private callbacks: SseParserCallbacks;
+  private decoder = new TextDecoder();
+  private buffer = '';
+  private isFirstChunk = true;
+  private pendingCarriageReturn = false;
+
+  // Event being assembled
+  private dataLines: string[] = [];
+  private eventType = '';
+  private retry: number | undefined = undefined;
+
+  // Persists across events, as with EventSource.lastEventId
+  private lastEventId = '';
+
+  /**
+   * Creates a new parser
+   * @param callbacks Parser callbacks
+   * @param lastEventId Initial last event ID (e.g. the one sent as Last-Event-ID)
+   */
+  constructor(callbacks: SseParserCallbacks, lastEventId = '') {
+    this.callbacks = callbacks;
+    this.lastEventId = lastEventId;
+  }
+
+  /**
+   * Gets the last event ID seen on the stream
+   */
+  public getLastEventId(): string {
+    return this.lastEventId;
+  }
+
+  /**
+   * Feeds a chunk of the stream into the parser
+   * @param chunk Decoded text or raw UTF-8 bytes
+   */
+  public feed(chunk: string | Uint8Array): void {
+    let text = typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+
+    if (this.isFirstChunk && text.length > 0) {
+      this.isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    // A CR at the end of the previous chunk may be the first half of a CRLF pair;
+    // empty chunks leave the question open until some text arrives
+    if (this.pendingCarriageReturn && text.length > 0) {
+      this.pendingCarriageReturn = false;
+      if (text.startsWith('\n')) {
+        text = text.slice(1);
+      }
+    }
+
+    this.buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\r' && char !== '\n') {
+        continue;
+      }
+
+      this.processLine(this.buffer.slice(start, i));
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCarriageReturn = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+  }
+
+  /**
+   * Signals the end of the stream
+   * Any incomplete event is discarded, as required by the specification.
+   */
+  public end(): void {
+    this.buffer = '';
+    this.pendingCarriageReturn = false;
+    this.resetEvent();
+  }
+
+  /**
+   * Resets the parser for a new stream, keeping the last event ID
+   */
+  public reset(): void {
+    this.end();
+    this.decoder = new TextDecoder();
+    this.isFirstChunk = true;
+  }
+
+  /**
+   * Processes a single line of the event stream
+   */
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatchEvent();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      this.callbacks.onComment?.(line.slice(1).replace(/^ /, ''));
+      return;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        // IDs containing NULL are ignored
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+          this.callbacks.onRetry?.(this.retry);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  /**
+   * Dispatches the event assembled so far
+   */
+  private dispatchEvent(): void {
+    if (this.dataLines.length === 0) {
+      this.resetEvent();
+      return;
+    }
+
+    const event: SseEvent = {
+      id: this.lastEventId || undefined,
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+    };
+
+    if (this.retry !== undefined) {
+      event.retry = this.retry;
+    }
+
+    this.resetEvent();
+    this.callbacks.onEvent(event);
+  }
+
+  /**
+   * Clears the buffers of the event being assembled
+   */
+  private resetEvent(): void {
+    this.dataLines = [];
+    this.eventType = '';
+    this.retry = undefined;
+  }
+}
+
+/**
+ * Parses a complete text/event-stream document
+ * @param text The raw stream contents
+ * @returns The events it contains, in order
+ */
+export function parseEventStream(text: string): SseEvent[] {
+  const events: SseEvent[] = [];
+  const parser = new SseParser({ onEvent: event => events.push(event) });
+
+  parser.feed(text);
+  parser.end();
+
+  return events;
+}
@@ -0,0 +1,146 @@
+import type { SseClient } from './sseService';
+
+/**
+ * A frame of a recorded session, one line of the NDJSON file
+ */
+export interface SseRecordedFrame {
+  /** Time since the recording started in milliseconds */
+  t: number;
+
+  /** Event type */
+  type: string;
+
+  /** SSE id field, if the frame had one */
+  id?: string;
+
+  /** Raw event data */
+  data: string;
+}
+
+/**
+ * Records the frames received by an SSE client
+ * Frames are recorded as received, before reordering and deduplication, so a replay
+ * reproduces what the server sent.
+ */
+export class SseRecorder {
+  private client: SseClient;
+  private frames: SseRecordedFrame[] = [];
+  private startedAt: number | null = null;
+  private detachFromClient: (() => void) | null = null;
+
+  /**
+   * Creates a new recorder
+   * @param client SSE client whose frames are recorded
+   */
+  constructor(client: SseClient) {
+    this.client = client;
+  }
+
+  /**
+   * Whether the recorder is recording
+   */
+  public get isRecording(): boolean {
+    return this.detachFromClient !== null;
+  }
+
+  /**
+   * Starts recording, discarding any previous recording
+   */
+  public start(): void {
+    this.stop();
+    this.frames = [];
+    this.startedAt = Date.now();
+
+    this.detachFromClient = this.client.subscribeDiagnostics((event) => {
+      if (event.kind !== 'frame') {
+        return;
+      }
+
+      const frame: SseRecordedFrame = {
+        t: event.timestamp - (this.startedAt ?? event.timestamp),
+        type: event.frame.event || 'message',
+        data: event.frame.data,
+      };
+      if (event.frame.id) {
+        frame.id = event.frame.id;
+      }
+      this.frames.push(frame);
+    });
+  }
+
+  /**
+   * Stops recording; the frames recorded so far are kept
+   */
+  public stop(): void {
+    if (this.detachFromClient) {
+      this.detachFromClient();
+      this.detachFromClient = null;
+    }
+  }
+
+  /**
+   * Gets the recorded frames
+   */
+  public getFrames(): SseRecordedFrame[] {
+    return [...this.frames];
+  }
+
+  /**
+   * Gets the recording as NDJSON
+   */
+  public toNdjson(): string {
+    return serializeRecording(this.frames);
+  }
+
+  /**
+   * Downloads the recording as an NDJSON file
+   * @param fileName Name of the file (default: sse-recording-<time>.ndjson)
+   */
+  public download(fileName = `sse-recording-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`): void {
+    const url = URL.createObjectURL(new Blob([this.toNdjson()], { type: 'application/x-ndjson' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Serializes recorded frames as NDJSON, one frame per line
+ */
+export function serializeRecording(frames: SseRecordedFrame[]): string {
+  return frames.map(frame => JSON.stringify(frame)).join('\n') + (frames.length > 0 ? '\n' : '');
+}
+
+/**
+ * Parses an NDJSON recording
+ * @param ndjson Contents of the recording file
+ * @returns The frames, ordered by time
+ * @throws Error naming the first line that isn't a valid frame
+ */
+export function parseRecording(ndjson: string): SseRecordedFrame[] {
+  const frames: SseRecordedFrame[] = [];
+
+  ndjson.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+
+    let frame: Partial<SseRecordedFrame>;
+    try {
+      frame = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid recording: line ${index + 1} is not JSON`);
+    }
+
+    if (typeof frame?.t !== 'number' || typeof frame.type !== 'string' || typeof frame.data !== 'string'
+      || (frame.id !== undefined && typeof frame.id !== 'string')) {
+      throw new Error(`Invalid recording: line ${index + 1} is not a frame (expected t, type and data)`);
+    }
+
+    frames.push({ t: frame.t, type: frame.type, id: frame.id, data: frame.data });
+  });
+
+  return frames.sort((a, b) => a.t - b.t);
+}
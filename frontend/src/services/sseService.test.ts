@@ -0,0 +1,452 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SseClient, SseConnectionStatus, SseTransport } from './sseService';
+import type { SseOptions } from './sseService';
+import { MemoryCheckpointStore } from './checkpointStore';
+import { SseHttpErrorEvent } from './fetchEventSource';
+import { SseReplay } from './replayEventSource';
+import { FakeEventSource } from '../test/fakeEventSource';
+
+const clients: SseClient[] = [];
+
+/**
+ * Creates a client, connects it and waits for its event source
+ */
+async function connectClient(options: Partial<SseOptions> = {}): Promise<SseClient> {
+  const client = new SseClient({
+    url: '/api/sse/connect',
+    clientId: 'test-client',
+    checkpointStore: new MemoryCheckpointStore(),
+    ...options,
+  });
+  clients.push(client);
+
+  client.connect();
+  await client.whenCheckpointLoaded();
+  return client;
+}
+
+/**
+ * Waits until the checkpoint writes queued so far have reached the store
+ */
+function flushCheckpointWrites(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Builds a notification payload
+ */
+function notification(messageId: string, sequence?: number) {
+  return {
+    type: 'notification',
+    messageId,
+    timestamp: new Date().toISOString(),
+    version: '1.0',
+    message: `Notification ${messageId}`,
+    severity: 'info',
+    ...(sequence !== undefined && { _sequence: sequence }),
+  };
+}
+
+afterEach(() => {
+  clients.splice(0).forEach(client => client.close());
+  vi.unstubAllGlobals();
+});
+
+describe('SseClient', () => {
+  describe('connection', () => {
+    it('opens the stream with the client ID, filter and API key', async () => {
+      const onOpen = vi.fn();
+      const client = await connectClient({ filter: 'notification', apiKey: 'secret', onOpen });
+
+      const source = FakeEventSource.latest();
+      expect(source.url.startsWith('/api/sse/connect?')).toBe(true);
+      expect(source.searchParams.get('clientId')).toBe('test-client');
+      expect(source.searchParams.get('filter')).toBe('notification');
+      expect(source.searchParams.get('apikey')).toBe('secret');
+      expect(client.getStatus()).toBe(SseConnectionStatus.CONNECTING);
+
+      source.open();
+
+      expect(client.getStatus()).toBe(SseConnectionStatus.OPEN);
+      expect(onOpen).toHaveBeenCalledTimes(1);
+    });
+
+    it('closes the event source when the client is closed', async () => {
+      const onClose = vi.fn();
+      const client = await connectClient({ onClose });
+      const source = FakeEventSource.latest();
+
+      client.close();
+
+      expect(source.closed).toBe(true);
+      expect(client.getStatus()).toBe(SseConnectionStatus.CLOSED);
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reconnection', () => {
+    it.each([
+      [401, false],
+      [403, false],
+      [408, true],
+      [429, true],
+      [503, true],
+    ])('retries a %i response of the fetch transport: %s', async (status, retries) => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('Denied', { status })));
+      const onError = vi.fn();
+      const onRetryScheduled = vi.fn();
+      const client = await connectClient({ transport: SseTransport.FETCH, retryTimeout: 60000, onError, onRetryScheduled });
+
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+
+      expect(onError).toHaveBeenCalledWith(expect.any(SseHttpErrorEvent));
+      expect(client.getLastHttpStatus()).toBe(status);
+      expect(onRetryScheduled).toHaveBeenCalledTimes(retries ? 1 : 0);
+      expect(client.getStatus()).toBe(retries ? SseConnectionStatus.ERROR : SseConnectionStatus.CLOSED);
+    });
+
+    it('caps the retry value sent by the server at maxRetryDelay', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('retry: 86400000\n\n', {
+        headers: { 'Content-Type': 'text/event-stream' },
+      })));
+      const onRetryScheduled = vi.fn();
+      await connectClient({ transport: SseTransport.FETCH, maxRetryDelay: 5000, onRetryScheduled });
+
+      await vi.waitFor(() => expect(onRetryScheduled).toHaveBeenCalledTimes(1));
+
+      expect(onRetryScheduled).toHaveBeenCalledWith(expect.objectContaining({ delay: 5000 }));
+    });
+
+    it('reconnects after the retry timeout when the connection fails', async () => {
+      vi.useFakeTimers();
+      const onError = vi.fn();
+      const onRetryScheduled = vi.fn();
+      const client = await connectClient({ retryTimeout: 1000, onError, onRetryScheduled });
+      const source = FakeEventSource.latest();
+      source.open();
+
+      source.error();
+
+      expect(client.getStatus()).toBe(SseConnectionStatus.ERROR);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onRetryScheduled).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 1000 }));
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(FakeEventSource.instances).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(FakeEventSource.instances).toHaveLength(2);
+      expect(source.closed).toBe(true);
+
+      FakeEventSource.latest().open();
+      expect(client.getStatus()).toBe(SseConnectionStatus.OPEN);
+      expect(client.getRetryCount()).toBe(0);
+    });
+
+    it('does not go stale while a reconnection is pending', async () => {
+      vi.useFakeTimers();
+      const onStale = vi.fn();
+      const onRetryScheduled = vi.fn();
+      await connectClient({ retryTimeout: 5000, heartbeat: { interval: 1000, missedHeartbeats: 2 }, onStale, onRetryScheduled });
+      FakeEventSource.latest().open();
+
+      await vi.advanceTimersByTimeAsync(1500);
+      FakeEventSource.latest().error();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(onStale).not.toHaveBeenCalled();
+      expect(onRetryScheduled).toHaveBeenCalledTimes(1);
+      expect(FakeEventSource.instances).toHaveLength(2);
+    });
+
+    it('uses the delays of a custom backoff strategy', async () => {
+      vi.useFakeTimers();
+      const onRetryScheduled = vi.fn();
+      await connectClient({ backoff: (attempt) => attempt * 100, onRetryScheduled });
+
+      FakeEventSource.latest().error();
+      await vi.advanceTimersByTimeAsync(100);
+      FakeEventSource.latest().error();
+      await vi.advanceTimersByTimeAsync(200);
+      FakeEventSource.latest().error();
+
+      expect(onRetryScheduled.mock.calls.map(([info]) => info.delay)).toEqual([100, 200, 300]);
+    });
+
+    it('gives up after the maximum number of retry attempts', async () => {
+      vi.useFakeTimers();
+      const client = await connectClient({ retryTimeout: 100, maxRetryAttempts: 2 });
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        FakeEventSource.latest().error();
+        await vi.advanceTimersByTimeAsync(100);
+      }
+      FakeEventSource.latest().error();
+
+      expect(FakeEventSource.instances).toHaveLength(3);
+      expect(client.getStatus()).toBe(SseConnectionStatus.CLOSED);
+
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(FakeEventSource.instances).toHaveLength(3);
+    });
+
+    it('resumes from the last sequence number when reconnecting', async () => {
+      vi.useFakeTimers();
+      await connectClient({ retryTimeout: 100 });
+      const source = FakeEventSource.latest();
+      source.open();
+      source.emit('notification', notification('a', 7), { id: 'event-7' });
+
+      source.error();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(FakeEventSource.latest().searchParams.get('checkpoint')).toBe('7');
+    });
+  });
+
+  describe('checkpoint persistence', () => {
+    it('resumes a new client from the checkpoint of a previous one', async () => {
+      const checkpointStore = new MemoryCheckpointStore();
+      const first = await connectClient({ checkpointStore });
+      FakeEventSource.latest().open();
+      FakeEventSource.latest().emit('notification', notification('a', 41));
+      FakeEventSource.latest().emit('notification', notification('b', 42), { id: 'event-42' });
+      first.close();
+      await flushCheckpointWrites();
+
+      const second = await connectClient({ checkpointStore });
+
+      expect(second.getLastSequenceNumber()).toBe(42);
+      expect(second.getLastEventId()).toBe('event-42');
+      expect(FakeEventSource.latest().searchParams.get('checkpoint')).toBe('42');
+    });
+
+    it('keeps checkpoints of different client IDs apart', async () => {
+      const checkpointStore = new MemoryCheckpointStore();
+      const first = await connectClient({ checkpointStore });
+      FakeEventSource.latest().emit('notification', notification('a', 5));
+      first.close();
+      await flushCheckpointWrites();
+
+      const other = await connectClient({ checkpointStore, clientId: 'other-client' });
+
+      expect(other.getLastSequenceNumber()).toBeNull();
+      expect(FakeEventSource.latest().searchParams.has('checkpoint')).toBe(false);
+    });
+
+    it('starts from scratch after the checkpoint is cleared', async () => {
+      const checkpointStore = new MemoryCheckpointStore();
+      const first = await connectClient({ checkpointStore });
+      FakeEventSource.latest().emit('notification', notification('a', 5));
+      first.clearCheckpoint();
+      first.close();
+      await flushCheckpointWrites();
+
+      const second = await connectClient({ checkpointStore });
+
+      expect(second.getLastSequenceNumber()).toBeNull();
+    });
+
+    it('stores the checkpoint in localStorage by default', async () => {
+      const first = await connectClient({ checkpointStore: undefined });
+      FakeEventSource.latest().emit('notification', notification('a', 9));
+      first.close();
+      await flushCheckpointWrites();
+
+      const second = await connectClient({ checkpointStore: undefined });
+
+      expect(second.getLastSequenceNumber()).toBe(9);
+    });
+  });
+
+  describe('deduplication', () => {
+    it('drops events whose messageId was already delivered', async () => {
+      const onEvent = vi.fn();
+      await connectClient({ onEvent: { notification: onEvent } });
+      const source = FakeEventSource.latest();
+      source.open();
+
+      source.emit('notification', notification('a'));
+      source.emit('notification', notification('a'));
+      source.emit('notification', notification('b'));
+
+      expect(onEvent.mock.calls.map(([data]) => data.messageId)).toEqual(['a', 'b']);
+    });
+
+    it('delivers duplicates when deduplication is disabled', async () => {
+      const onEvent = vi.fn();
+      await connectClient({ dedupe: false, onEvent: { notification: onEvent } });
+      const source = FakeEventSource.latest();
+
+      source.emit('notification', notification('a'));
+      source.emit('notification', notification('a'));
+
+      expect(onEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('deduplicates by the SSE id when configured', async () => {
+      const listener = vi.fn();
+      const client = await connectClient({ dedupe: { key: 'eventId' } });
+      client.subscribe(listener);
+      const source = FakeEventSource.latest();
+
+      source.emit('notification', notification('a'), { id: '1' });
+      source.emit('notification', notification('b'), { id: '1' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('suppresses replays after a reload when the keys are persisted', async () => {
+      const checkpointStore = new MemoryCheckpointStore();
+      const first = await connectClient({ checkpointStore, dedupe: { persist: true } });
+      FakeEventSource.latest().emit('notification', notification('a'));
+      FakeEventSource.latest().emit('notification', notification('b', 1));
+      first.close();
+      await flushCheckpointWrites();
+
+      const listener = vi.fn();
+      const second = await connectClient({ checkpointStore, dedupe: { persist: true } });
+      second.subscribe(listener);
+      FakeEventSource.latest().emit('notification', notification('a'));
+      FakeEventSource.latest().emit('notification', notification('c'));
+
+      expect(listener.mock.calls.map(([event]) => JSON.parse(event.data).messageId)).toEqual(['c']);
+    });
+
+    it('throttles the writes of persisted keys, including the keys of unsequenced events', async () => {
+      vi.useFakeTimers();
+      const checkpointStore = new MemoryCheckpointStore();
+      const save = vi.spyOn(checkpointStore, 'save');
+      const client = await connectClient({ checkpointStore, dedupe: { persist: true } });
+      const source = FakeEventSource.latest();
+
+      source.emit('notification', notification('a'));
+      source.emit('notification', notification('b', 1));
+      source.emit('notification', notification('c', 2));
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(save.mock.calls[0][1].recentKeys).toEqual(['a', 'b', 'c']);
+
+      source.emit('notification', notification('d'));
+      client.close();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(save).toHaveBeenCalledTimes(2);
+      expect(save.mock.calls[1][1].recentKeys).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+
+  describe('event routing', () => {
+    it('calls the onEvent handler of each event type with the parsed data', async () => {
+      const onNotification = vi.fn();
+      const onDataUpdate = vi.fn();
+      await connectClient({ onEvent: { notification: onNotification, dataUpdate: onDataUpdate } });
+      const source = FakeEventSource.latest();
+
+      source.emit('notification', notification('a'));
+      source.emit('dataUpdate', { type: 'dataUpdate', messageId: 'b', entityId: '1', entityType: 'order', changes: {} });
+
+      expect(onNotification).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'a' }));
+      expect(onDataUpdate).toHaveBeenCalledWith(expect.objectContaining({ entityType: 'order' }));
+      expect(onNotification).toHaveBeenCalledTimes(1);
+      expect(onDataUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it('passes event types without a handler to onMessage with their type', async () => {
+      const onMessage = vi.fn();
+      const onNotification = vi.fn();
+      await connectClient({ onMessage, onEvent: { notification: onNotification } });
+      const source = FakeEventSource.latest();
+
+      source.emit('alert', { type: 'alert', messageId: 'a' }, { id: '3' });
+      source.message('plain text');
+
+      expect(onMessage.mock.calls.map(([event]) => [event.event, event.id])).toEqual([['alert', '3'], ['message', '']]);
+      expect(onNotification).not.toHaveBeenCalled();
+    });
+
+    it('delivers each event once to subscribers', async () => {
+      const listener = vi.fn();
+      const client = await connectClient({ onEvent: { message: vi.fn() } });
+      client.subscribe(listener);
+      const source = FakeEventSource.latest();
+
+      source.message(notification('a'));
+      source.emit('notification', notification('b'));
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('listens for custom event types', async () => {
+      const listener = vi.fn();
+      const client = await connectClient();
+      client.subscribe(listener);
+      client.listenFor('orderShipped');
+
+      FakeEventSource.latest().emit('orderShipped', { type: 'orderShipped', messageId: 'a' });
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ event: 'orderShipped' }));
+    });
+  });
+
+  describe('replay', () => {
+    const frames = [
+      { t: 0, type: 'connected', data: JSON.stringify({ type: 'connected', messageId: 'c' }) },
+      { t: 10, type: 'notification', id: '1', data: JSON.stringify(notification('a', 1)) },
+      { t: 20, type: 'alert', id: '2', data: JSON.stringify({ type: 'alert', messageId: 'b', _sequence: 2 }) },
+    ];
+
+    /**
+     * Plays every frame of a replay that doesn't play automatically
+     */
+    function stepThrough(replay: SseReplay) {
+      frames.forEach(() => replay.step());
+    }
+
+    it('delivers the frames again after a rewind', async () => {
+      const replay = new SseReplay(frames, { autoPlay: false });
+      const listener = vi.fn();
+      const onSequenceRegression = vi.fn();
+      const client = await connectClient({ replay, onSequenceRegression });
+      client.subscribe(listener);
+      await flushCheckpointWrites();
+
+      stepThrough(replay);
+      replay.rewind();
+      stepThrough(replay);
+
+      expect(listener.mock.calls.map(([event]) => event.event)).toEqual([
+        'connected', 'notification', 'alert', 'connected', 'notification', 'alert',
+      ]);
+      expect(onSequenceRegression).not.toHaveBeenCalled();
+      expect(client.getLastSequenceNumber()).toBe(2);
+    });
+
+    it('keeps the frames stepped through before a client is connected', async () => {
+      const replay = new SseReplay(frames, { autoPlay: false });
+      replay.step();
+      expect(replay.getState().position).toBe(0);
+
+      const listener = vi.fn();
+      const client = await connectClient({ replay });
+      client.subscribe(listener);
+      await flushCheckpointWrites();
+      stepThrough(replay);
+
+      expect(listener).toHaveBeenCalledTimes(frames.length);
+    });
+
+    it('only delivers the frames matching the filter', async () => {
+      const replay = new SseReplay(frames, { autoPlay: false });
+      const listener = vi.fn();
+      const client = await connectClient({ replay, filter: 'alert' });
+      client.subscribe(listener);
+      await flushCheckpointWrites();
+
+      stepThrough(replay);
+
+      expect(listener.mock.calls.map(([event]) => event.event)).toEqual(['connected', 'alert']);
+    });
+  });
+});
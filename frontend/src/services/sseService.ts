@@ -1,4 +1,19 @@
 import { SseEventTypes, isValidEventType } from '../models/sseEventTypes';
+import { sseEventRegistry } from '../models/sseEventRegistry';
+import type { SseEventRegistry } from '../models/sseEventRegistry';
+import { FetchEventSource, SseHttpErrorEvent } from './fetchEventSource';
+import { CrossTabEventSource, isCrossTabSupported } from './crossTabEventSource';
+import { createDefaultCheckpointStore } from './checkpointStore';
+import type { CheckpointStore, SseCheckpoint } from './checkpointStore';
+import { BackoffStrategies, createBackoffStrategy } from './backoff';
+import { MessageDeduplicator } from './messageDeduplicator';
+import type { SseDedupeOptions } from './messageDeduplicator';
+import type { BackoffStrategy, BackoffStrategyName } from './backoff';
+import { createLogger } from './logger';
+import { SseStatsCollector } from './sseStats';
+import type { SseStats } from './sseStats';
+import type { SseReplay } from './replayEventSource';
+import type { SseLogger } from './logger';
 
 /**
  * SSE Event interface
@@ -10,6 +25,132 @@ export interface SseEvent {
   retry?: number;
 }
 
+/**
+ * SSE transport types
+ */
+export const SseTransport = {
+  /** Native browser EventSource (API key and last event ID sent as query parameters) */
+  EVENT_SOURCE: 'eventsource',
+  /** fetch + ReadableStream (API key and Last-Event-ID sent as headers) */
+  FETCH: 'fetch',
+} as const;
+
+export type SseTransport = typeof SseTransport[keyof typeof SseTransport];
+
+/**
+ * Minimal EventSource surface used by SseClient
+ * Implemented by the native EventSource and by FetchEventSource
+ */
+export interface SseEventSource {
+  onopen: ((event: Event) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  close(): void;
+}
+
+/**
+ * Details of a scheduled reconnection attempt
+ */
+export interface SseRetryInfo {
+  /** 1-based reconnection attempt number */
+  attempt: number;
+
+  /** Delay before the attempt in milliseconds */
+  delay: number;
+
+  /** Time of the attempt (milliseconds since the epoch) */
+  nextRetryAt: number;
+}
+
+/**
+ * Request used to open the stream
+ */
+export interface SseConnectionRequest {
+  /** URL including the query parameters */
+  url: string;
+
+  /** Request headers (sent by the fetch transport only) */
+  headers: Record<string, string>;
+
+  /** Transport that opens the stream */
+  transport: SseTransport;
+}
+
+/**
+ * Listeners registered on a client
+ */
+export interface SseListenerInfo {
+  /** Number of listeners per event type on the event source */
+  eventListeners: Record<string, number>;
+
+  /** Event types with an onEvent handler */
+  onEventHandlers: string[];
+
+  /** Whether an onMessage callback is set */
+  onMessage: boolean;
+
+  /** Number of subscribers receiving every event */
+  subscribers: number;
+}
+
+/**
+ * Diagnostic record of what happened on a client, for inspectors and devtools
+ * Frames are reported as received, before reordering and deduplication.
+ */
+export type SseDiagnosticEvent =
+  | { kind: 'frame'; timestamp: number; frame: SseEvent; payload: unknown }
+  | { kind: 'status'; timestamp: number; status: SseConnectionStatus }
+  | { kind: 'retry'; timestamp: number; retry: SseRetryInfo };
+
+/**
+ * Idle policy for pages that are hidden or stored in the back/forward cache
+ */
+export interface SseIdlePolicy {
+  /** Time in milliseconds a tab may stay hidden before the stream is closed (e.g. 5 * 60 * 1000) */
+  hiddenTimeout: number;
+
+  /** Whether to close the stream when the page enters the back/forward cache (default: true) */
+  closeOnBfcache?: boolean;
+}
+
+/**
+ * Heartbeat watchdog options
+ */
+export interface SseHeartbeatOptions {
+  /** Expected interval between heartbeats in milliseconds (default: 30000, matching the backend) */
+  interval?: number;
+
+  /** Number of heartbeat intervals without any event before the connection is stale (default: 2) */
+  missedHeartbeats?: number;
+
+  /** Whether to learn a longer interval from the spacing of received heartbeats (default: true) */
+  learnInterval?: boolean;
+}
+
+/**
+ * Sequence gap detection options
+ */
+export interface SseGapDetectionOptions {
+  /** Maximum number of out-of-order events held while waiting for a missing sequence (default: 100) */
+  maxBufferSize?: number;
+
+  /** Time in milliseconds to wait for a missing sequence before giving up on it (default: 2000) */
+  gapTimeout?: number;
+
+  /** Whether to reconnect from the checkpoint to recover a gap that wasn't filled (default: true) */
+  recoverGaps?: boolean;
+}
+
+/**
+ * An event held in the reorder buffer until the events before it arrive
+ */
+interface BufferedSseEvent {
+  lastEventId: string;
+  deliver: () => void;
+}
+
 /**
  * SSE Connection options
  */
@@ -26,21 +167,62 @@ export interface SseOptions {
   /** Optional API key for authentication */
   apiKey?: string;
 
-  /** Retry timeout in milliseconds (default: 3000) */
+  /** Transport used to open the stream (default: 'eventsource') */
+  transport?: SseTransport;
+
+  /**
+   * Whether to share one connection between all tabs of the origin (default: false)
+   * One tab holds the connection and relays its events and errors to the others; the
+   * checkpoint is shared instead of being stored per client ID, and written by that tab.
+   */
+  crossTab?: boolean;
+
+  /** Retry timeout in milliseconds (default: 3000); the base delay for the backoff strategy */
   retryTimeout?: number;
 
+  /** Backoff strategy between reconnection attempts, by name or as a function (default: 'fixed') */
+  backoff?: BackoffStrategyName | BackoffStrategy;
+
+  /** Maximum delay between reconnection attempts in milliseconds (default: 30000) */
+  maxRetryDelay?: number;
+
+  /** Whether a server-sent retry field overrides the backoff delay, up to maxRetryDelay (default: true) */
+  respectServerRetry?: boolean;
+
   /** Maximum number of retry attempts (default: 5) */
   maxRetryAttempts?: number;
 
   /** Whether to automatically reconnect on error (default: true) */
   autoReconnect?: boolean;
 
+  /** Whether to pause reconnection while the browser is offline (default: true) */
+  networkAware?: boolean;
+
+  /** Idle policy for hidden tabs; hidden tabs keep their connection when not set */
+  idlePolicy?: SseIdlePolicy;
+
+  /** Heartbeat watchdog options; the watchdog is disabled when not set */
+  heartbeat?: SseHeartbeatOptions;
+
+  /**
+   * Sequence gap detection options; gap detection is disabled when not set
+   * Only enable it for streams that receive every sequence number: the backend numbers
+   * events globally, so filtered streams and targeted sends legitimately skip sequences.
+   */
+  gapDetection?: SseGapDetectionOptions;
+
+  /** Duplicate suppression options, or false to deliver duplicates (default: deduplicate by messageId) */
+  dedupe?: SseDedupeOptions | false;
+
   /** Whether to use checkpoint recovery on reconnection (default: true) */
   useCheckpoint?: boolean;
 
   /** Storage key prefix for checkpoint data (default: 'sse-checkpoint') */
   checkpointStorageKey?: string;
 
+  /** Storage backend for checkpoint data (default: localStorage, or memory where it is unavailable) */
+  checkpointStore?: CheckpointStore;
+
   /** Callback for when the connection is opened */
   onOpen?: () => void;
 
@@ -50,11 +232,48 @@ export interface SseOptions {
   /** Callback for when an error occurs */
   onError?: (error: Event) => void;
 
+  /** Callback for when the browser goes offline and reconnection is paused */
+  onOffline?: () => void;
+
+  /** Callback for when the browser comes back online and reconnection resumes */
+  onOnline?: () => void;
+
+  /** Callback for when the stream is suspended by the idle policy */
+  onSuspend?: () => void;
+
+  /** Callback for when a suspended stream resumes */
+  onResume?: () => void;
+
+  /** Callback for when the watchdog detects a silently dead connection */
+  onStale?: (silentFor: number) => void;
+
+  /** Callback for when a reconnection attempt is scheduled */
+  onRetryScheduled?: (info: SseRetryInfo) => void;
+
+  /** Callback for when sequence numbers from..to (inclusive) are missing from the stream */
+  onGap?: (from: number, to: number) => void;
+
+  /** Callback for when an event arrives with a sequence number at or below the last one */
+  onSequenceRegression?: (sequence: number, lastSequence: number) => void;
+
   /** Callback for when a message is received */
   onMessage?: (event: SseEvent) => void;
 
   /** Callback for specific event types */
   onEvent?: Record<string, (data: any) => void>;
+
+  /** Event registry whose types are listened for, including types defined later (default: the shared registry) */
+  eventRegistry?: SseEventRegistry;
+
+  /** Logger for connection and event diagnostics (default: the 'sse:client' logger, configured with configureLogging) */
+  logger?: SseLogger;
+
+  /**
+   * Recorded session to replay instead of connecting to the server
+   * The url and transport are ignored, and the checkpoint is neither loaded nor saved
+   * so a replay never affects the checkpoint of a live session.
+   */
+  replay?: SseReplay;
 }
 
 /**
@@ -65,6 +284,9 @@ export const SseConnectionStatus = {
   OPEN: 'open',
   CLOSED: 'closed',
   ERROR: 'error',
+  OFFLINE: 'offline',
+  SUSPENDED: 'suspended',
+  STALE: 'stale',
 } as const;
 
 export type SseConnectionStatus = typeof SseConnectionStatus[keyof typeof SseConnectionStatus];
@@ -74,14 +296,46 @@ export type SseConnectionStatus = typeof SseConnectionStatus[keyof typeof SseCon
  * Provides a wrapper around the EventSource API with additional features
  */
 export class SseClient {
-  private eventSource: EventSource | null = null;
+  private eventSource: SseEventSource | null = null;
   private options: SseOptions;
-  private status: string = SseConnectionStatus.CLOSED;
+  private status: SseConnectionStatus = SseConnectionStatus.CLOSED;
   private retryCount = 0;
   private retryTimer: number | null = null;
+  private retryDelay = 0;
+  private nextRetryAt: number | null = null;
+  private serverRetryDelay: number | null = null;
+  private networkListenersAttached = false;
+  private readonly onlineListener = () => this.handleOnline();
+  private readonly offlineListener = () => this.handleOffline();
+  private pageLifecycleListenersAttached = false;
+  private hiddenTimer: number | null = null;
+  private readonly visibilityListener = () => this.handleVisibilityChange();
+  private readonly pageHideListener = (event: PageTransitionEvent) => this.handlePageHide(event);
+  private watchdogTimer: number | null = null;
+  private lastActivityAt: number | null = null;
+  private lastHeartbeatAt: number | null = null;
+  private learnedHeartbeatInterval: number | null = null;
+  private readonly pageShowListener = (event: PageTransitionEvent) => this.handlePageShow(event);
   private eventListeners: Map<string, ((event: MessageEvent) => void)[]> = new Map();
   private lastSequenceNumber: number | null = null;
+  private reorderBuffer: Map<number, BufferedSseEvent> = new Map();
+  private gapTimer: number | null = null;
+  private recoveringGapFrom: number | null = null;
   private lastEventId: string | null = null;
+  private deduplicator: MessageDeduplicator | null;
+  private persistDedupeKeys: boolean;
+  private checkpointSaveTimer: number | null = null;
+  private lastHttpStatus: number | null = null;
+  private checkpointStore: CheckpointStore;
+  private pendingCheckpointLoad: Promise<void> | null = null;
+  private checkpointWrites: Promise<void> = Promise.resolve();
+  private connectAttempt = 0;
+  private subscribers: Set<(event: SseEvent) => void> = new Set();
+  private diagnosticListeners: Set<(event: SseDiagnosticEvent) => void> = new Set();
+  private extraEventTypes: Set<string> = new Set();
+  private detachFromRegistry: (() => void) | null = null;
+  private logger: SseLogger;
+  private stats = new SseStatsCollector();
 
   /**
    * Creates a new SSE client
@@ -91,13 +345,27 @@ export class SseClient {
     this.options = {
       retryTimeout: 3000,
       maxRetryAttempts: 5,
+      backoff: BackoffStrategies.FIXED,
+      maxRetryDelay: 30000,
+      respectServerRetry: true,
       autoReconnect: true,
+      networkAware: true,
       useCheckpoint: true,
       checkpointStorageKey: 'sse-checkpoint',
+      transport: SseTransport.EVENT_SOURCE,
       ...options,
     };
 
-    // Load checkpoint from localStorage if available
+    if (this.options.replay) {
+      this.options.useCheckpoint = false;
+    }
+
+    this.logger = this.options.logger ?? createLogger('sse:client');
+    this.checkpointStore = this.options.checkpointStore ?? createDefaultCheckpointStore();
+    this.deduplicator = this.options.dedupe === false ? null : new MessageDeduplicator(this.options.dedupe);
+    this.persistDedupeKeys = this.options.dedupe !== false && this.options.dedupe?.persist === true;
+
+    // Load checkpoint from storage if available
     if (this.options.useCheckpoint) {
       this.loadCheckpoint();
     }
@@ -110,6 +378,98 @@ export class SseClient {
     return this.status;
   }
 
+  /**
+   * Gets a short description of the client (client ID and filter), e.g. for inspectors
+   */
+  public getLabel(): string {
+    const clientId = this.options.clientId || 'anonymous';
+    return this.options.filter ? `${clientId} (${this.options.filter})` : clientId;
+  }
+
+  /**
+   * Gets the request the next connection attempt will make, from the current checkpoint
+   */
+  public getConnectionRequest(): SseConnectionRequest {
+    let url = this.options.url;
+    const params = new URLSearchParams();
+    const headers: Record<string, string> = {};
+    const useFetch = this.options.transport === SseTransport.FETCH;
+
+    if (this.options.clientId) {
+      params.append('clientId', this.options.clientId);
+    }
+
+    if (this.options.filter) {
+      // Use the filter as-is (backend will handle normalization)
+      params.append('filter', this.options.filter);
+    }
+
+    // Add API key to query params if provided (since headers don't work with EventSource)
+    if (this.options.apiKey && !useFetch) {
+      params.append('apikey', this.options.apiKey);
+    } else if (this.options.apiKey) {
+      headers['X-API-Key'] = this.options.apiKey;
+    }
+
+    // Add checkpoint parameters if available and checkpoint is enabled
+    if (this.options.useCheckpoint && this.lastSequenceNumber !== null) {
+      params.append('checkpoint', this.lastSequenceNumber.toString());
+    } else if (this.options.useCheckpoint && this.lastEventId && !useFetch) {
+      params.append('lastEventId', this.lastEventId);
+    } else if (this.options.useCheckpoint && this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+
+    if (params.toString()) {
+      url += `?${params.toString()}`;
+    }
+
+    return { url, headers, transport: useFetch ? SseTransport.FETCH : SseTransport.EVENT_SOURCE };
+  }
+
+  /**
+   * Gets the listeners registered on the client
+   */
+  public getListenerInfo(): SseListenerInfo {
+    const eventListeners: Record<string, number> = {};
+    this.eventListeners.forEach((listeners, eventType) => {
+      eventListeners[eventType] = listeners.length;
+    });
+
+    return {
+      eventListeners,
+      onEventHandlers: Object.keys(this.options.onEvent || {}),
+      onMessage: Boolean(this.options.onMessage),
+      subscribers: this.subscribers.size,
+    };
+  }
+
+  /**
+   * Subscribes to diagnostic records: received frames, status changes and scheduled retries
+   * @param listener Function called with each record
+   * @returns Function that removes the listener
+   */
+  public subscribeDiagnostics(listener: (event: SseDiagnosticEvent) => void): () => void {
+    this.diagnosticListeners.add(listener);
+    return () => {
+      this.diagnosticListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Gets the logger of the client
+   */
+  public getLogger(): SseLogger {
+    return this.logger;
+  }
+
+  /**
+   * Gets connection and throughput metrics, including rolling one- and five-minute windows
+   */
+  public getStats(): SseStats {
+    return this.stats.getStats();
+  }
+
   /**
    * Gets the last sequence number received
    */
@@ -125,67 +485,198 @@ export class SseClient {
   }
 
   /**
-   * Loads checkpoint data from localStorage
+   * Gets the number of reconnection attempts made since the last successful open
+   */
+  public getRetryCount(): number {
+    return this.retryCount;
+  }
+
+  /**
+   * Gets the time of the next scheduled reconnection attempt, or null if none is scheduled
+   */
+  public getNextRetryAt(): number | null {
+    return this.nextRetryAt;
+  }
+
+  /**
+   * Gets the time the last event was received (milliseconds since the epoch)
+   */
+  public getLastActivityAt(): number | null {
+    return this.lastActivityAt;
+  }
+
+  /**
+   * Gets the heartbeat interval the watchdog currently expects, or null if the watchdog is disabled
+   */
+  public getHeartbeatInterval(): number | null {
+    const heartbeat = this.options.heartbeat;
+    if (!heartbeat) {
+      return null;
+    }
+
+    const interval = heartbeat.interval ?? 30000;
+    if (heartbeat.learnInterval === false || this.learnedHeartbeatInterval === null) {
+      return interval;
+    }
+
+    // The configured interval is a floor; learning only ever extends it
+    return Math.max(interval, this.learnedHeartbeatInterval);
+  }
+
+  /**
+   * Gets the HTTP status of the last response
+   * Only available with the fetch transport; EventSource does not expose it
+   */
+  public getLastHttpStatus(): number | null {
+    return this.lastHttpStatus;
+  }
+
+  /**
+   * Waits until the checkpoint has been loaded from storage
+   */
+  public whenCheckpointLoaded(): Promise<void> {
+    return this.pendingCheckpointLoad ?? Promise.resolve();
+  }
+
+  /**
+   * Loads checkpoint data from the checkpoint store
+   * Connection attempts wait for the load to finish.
    */
   private loadCheckpoint(): void {
-    try {
-      const storageKey = this.getCheckpointStorageKey();
-      const checkpointData = localStorage.getItem(storageKey);
-      
-      if (checkpointData) {
-        const checkpoint = JSON.parse(checkpointData);
-        this.lastSequenceNumber = checkpoint.sequenceNumber || null;
-        this.lastEventId = checkpoint.eventId || null;
-        console.log('Loaded checkpoint:', { sequenceNumber: this.lastSequenceNumber, eventId: this.lastEventId });
-      }
-    } catch (error) {
-      console.error('Error loading checkpoint:', error);
+    const storageKey = this.getCheckpointStorageKey();
+
+    const load = this.checkpointWrites
+      .then(() => this.checkpointStore.load(storageKey))
+      .then((checkpoint) => {
+        if (checkpoint) {
+          this.lastSequenceNumber = checkpoint.sequenceNumber ?? null;
+          this.lastEventId = checkpoint.eventId ?? null;
+
+          if (this.deduplicator && this.persistDedupeKeys && checkpoint.recentKeys) {
+            this.deduplicator.restore(checkpoint.recentKeys);
+          }
+          this.logger.info('Loaded checkpoint:', { sequenceNumber: this.lastSequenceNumber, eventId: this.lastEventId });
+        }
+      })
+      .catch((error) => {
+        this.logger.error('Error loading checkpoint:', error);
+      })
+      .finally(() => {
+        if (this.pendingCheckpointLoad === load) {
+          this.pendingCheckpointLoad = null;
+        }
+      });
+
+    this.pendingCheckpointLoad = load;
+  }
+
+  /**
+   * Saves the checkpoint after an event was delivered
+   * With persisted deduplication keys every write serializes the whole key list, so the
+   * writes are throttled and each one includes the events delivered in the meantime.
+   */
+  private scheduleCheckpointSave(): void {
+    if (!this.persistDedupeKeys) {
+      this.saveCheckpoint();
+      return;
+    }
+
+    if (this.checkpointSaveTimer === null) {
+      this.checkpointSaveTimer = window.setTimeout(() => {
+        this.checkpointSaveTimer = null;
+        this.saveCheckpoint();
+      }, DEDUPE_KEYS_SAVE_INTERVAL);
     }
   }
 
   /**
-   * Saves checkpoint data to localStorage
+   * Saves checkpoint data to the checkpoint store
+   * Writes are queued so that they reach the store in order.
    */
   private saveCheckpoint(): void {
+    this.clearCheckpointSaveTimer();
+
     if (!this.options.useCheckpoint) {
       return;
     }
 
-    try {
-      const storageKey = this.getCheckpointStorageKey();
-      const checkpointData = {
-        sequenceNumber: this.lastSequenceNumber,
-        eventId: this.lastEventId,
-        timestamp: new Date().toISOString(),
-        clientId: this.options.clientId
-      };
-      
-      localStorage.setItem(storageKey, JSON.stringify(checkpointData));
-    } catch (error) {
-      console.error('Error saving checkpoint:', error);
+    // Only the leader writes the shared checkpoint; followers would race it
+    if (this.options.crossTab && !this.isLeader()) {
+      return;
     }
+
+    const storageKey = this.getCheckpointStorageKey();
+    const checkpointData: SseCheckpoint = {
+      sequenceNumber: this.lastSequenceNumber,
+      eventId: this.lastEventId,
+      timestamp: new Date().toISOString(),
+      clientId: this.options.clientId
+    };
+
+    if (this.deduplicator && this.persistDedupeKeys) {
+      checkpointData.recentKeys = this.deduplicator.getKeys();
+    }
+
+    this.checkpointWrites = this.checkpointWrites
+      .then(async () => {
+        // An outgoing leader may still be writing the same checkpoint; never move it backwards
+        if (this.options.crossTab && checkpointData.sequenceNumber !== null) {
+          const stored = await this.checkpointStore.load(storageKey);
+          if (stored?.sequenceNumber != null && stored.sequenceNumber > checkpointData.sequenceNumber) {
+            return;
+          }
+        }
+
+        await this.checkpointStore.save(storageKey, checkpointData);
+      })
+      .catch((error) => {
+        this.logger.error('Error saving checkpoint:', error);
+      });
   }
 
   /**
-   * Clears checkpoint data from localStorage
+   * Cancels a throttled checkpoint write
    */
-  public clearCheckpoint(): void {
-    try {
-      const storageKey = this.getCheckpointStorageKey();
-      localStorage.removeItem(storageKey);
-      this.lastSequenceNumber = null;
-      this.lastEventId = null;
-      console.log('Checkpoint cleared');
-    } catch (error) {
-      console.error('Error clearing checkpoint:', error);
+  private clearCheckpointSaveTimer(): void {
+    if (this.checkpointSaveTimer !== null) {
+      window.clearTimeout(this.checkpointSaveTimer);
+      this.checkpointSaveTimer = null;
     }
   }
 
+  /**
+   * Clears checkpoint data from the checkpoint store
+   * The client starts over: the retry value sent by the server is forgotten too.
+   */
+  public clearCheckpoint(): void {
+    const storageKey = this.getCheckpointStorageKey();
+    this.clearCheckpointSaveTimer();
+    this.lastSequenceNumber = null;
+    this.lastEventId = null;
+    this.serverRetryDelay = null;
+    this.deduplicator?.clear();
+
+    this.checkpointWrites = this.checkpointWrites
+      .then(() => this.checkpointStore.clear(storageKey))
+      .then(() => {
+        this.logger.info('Checkpoint cleared');
+      })
+      .catch((error) => {
+        this.logger.error('Error clearing checkpoint:', error);
+      });
+  }
+
   /**
    * Gets the storage key for checkpoint data
    */
   private getCheckpointStorageKey(): string {
     const baseKey = this.options.checkpointStorageKey || 'sse-checkpoint';
+
+    // Tabs sharing a connection share its checkpoint too
+    if (this.options.crossTab) {
+      return `${baseKey}-shared-${this.options.filter || 'all'}`;
+    }
+
     return this.options.clientId ? `${baseKey}-${this.options.clientId}` : baseKey;
   }
 
@@ -200,50 +691,47 @@ export class SseClient {
     // Clear existing event listeners
     this.eventListeners.clear();
 
-    this.status = SseConnectionStatus.CONNECTING;
-    console.log('SSE connecting...');
-
-    // Build the URL with query parameters
-    let url = this.options.url;
-    const params = new URLSearchParams();
+    this.attachPageLifecycleListeners();
+    this.attachToEventRegistry();
+    setClientLive(this, true);
 
-    if (this.options.clientId) {
-      params.append('clientId', this.options.clientId);
-    }
+    if (this.options.networkAware) {
+      this.attachNetworkListeners();
 
-    if (this.options.filter) {
-      // Validate the filter is a known event type
-      if (!isValidEventType(this.options.filter) && this.options.filter !== 'update') {
-        console.warn(`Unknown event filter type: ${this.options.filter}`);
+      // Don't spend a connection attempt while there is no network
+      if (!this.isOnline()) {
+        this.enterOffline();
+        return;
       }
-
-      // Use the filter as-is (backend will handle normalization)
-      params.append('filter', this.options.filter);
-    }
-    
-    // Add API key to query params if provided (since headers don't work with EventSource)
-    if (this.options.apiKey) {
-      params.append('apikey', this.options.apiKey);
     }
 
-    // Add checkpoint parameters if available and checkpoint is enabled
-    if (this.options.useCheckpoint && this.lastSequenceNumber !== null) {
-      params.append('checkpoint', this.lastSequenceNumber.toString());
-      console.log('Adding checkpoint to URL:', this.lastSequenceNumber);
-    } else if (this.options.useCheckpoint && this.lastEventId) {
-      params.append('lastEventId', this.lastEventId);
-      console.log('Adding lastEventId to URL:', this.lastEventId);
-    }
+    this.setStatus(SseConnectionStatus.CONNECTING);
+    this.logger.info('SSE connecting...');
 
-    if (params.toString()) {
-      url += `?${params.toString()}`;
+    // Wait for the checkpoint to load before building the URL from it
+    if (this.pendingCheckpointLoad) {
+      const attempt = ++this.connectAttempt;
+      this.pendingCheckpointLoad.then(() => {
+        if (attempt === this.connectAttempt && this.status === SseConnectionStatus.CONNECTING) {
+          this.openEventSource();
+        }
+      });
+      return;
     }
 
-    console.log('Connecting to SSE endpoint:', url);
+    this.openEventSource();
+  }
+
+  /**
+   * Creates the event source and registers the event handlers
+   */
+  private openEventSource(): void {
+    this.stats.recordConnecting();
 
     try {
-      this.eventSource = new EventSource(url);
-      console.log('EventSource created');
+      this.eventSource = this.options.crossTab && isCrossTabSupported()
+        ? new CrossTabEventSource(this.getCrossTabChannelName(), () => this.createLeaderEventSource(), this.logger.child('cross-tab'))
+        : this.createEventSource();
 
       // Set up event handlers
       this.eventSource.onopen = this.handleOpen.bind(this);
@@ -251,149 +739,548 @@ export class SseClient {
 
       // Set up message handler (only use one method to avoid duplicates)
       this.eventSource.onmessage = this.handleMessage.bind(this);
-      console.log('Added onmessage handler');
+      this.logger.debug('Added onmessage handler');
 
       // Set up handlers for specific event types if provided
       if (this.options.onEvent) {
-        console.log('Setting up specific event handlers for:', Object.keys(this.options.onEvent));
-
-        // First, set up a handler for the generic 'message' event to catch all events
-        if (this.options.onEvent['message']) {
-          console.log('Setting up generic message handler');
-          this.setupEventListener('message', (event) => {
-            console.log('Received generic message event:', event);
-            
-            // Update last event ID and extract sequence number
-            if (event.lastEventId) {
-              this.lastEventId = event.lastEventId;
-            }
-            this.extractAndUpdateSequenceNumber(event.data);
-            
-            try {
-              const data = JSON.parse(event.data);
-              console.log('Parsed message data:', data);
-              this.options.onEvent!['message'](data);
-            } catch (error) {
-              console.error('Error parsing message data:', error);
-              this.options.onEvent!['message'](event.data);
-            }
-          });
-        }
+        this.logger.debug('Setting up specific event handlers for:', Object.keys(this.options.onEvent));
 
-        // Then set up handlers for specific event types
+        // The generic 'message' handler is called from handleMessage, so each message is sequenced once
         Object.keys(this.options.onEvent).forEach(eventType => {
-          if (eventType === 'message') return; // Skip, already handled above
+          if (eventType === 'message') return;
 
-          console.log(`Adding listener for event type: ${eventType}`);
+          this.logger.debug(`Adding listener for event type: ${eventType}`);
           this.setupEventListener(eventType, (event) => {
-            console.log(`Received ${eventType} event:`, event);
-            
-            // Update last event ID and extract sequence number
-            if (event.lastEventId) {
-              this.lastEventId = event.lastEventId;
-            }
-            this.extractAndUpdateSequenceNumber(event.data);
-            
-            if (this.options.onEvent && this.options.onEvent[eventType]) {
-              try {
-                const data = JSON.parse(event.data);
-                console.log(`Parsed ${eventType} data:`, data);
-                this.options.onEvent![eventType](data);
-              } catch (error) {
-                console.error(`Error parsing event data for ${eventType}:`, error);
-                this.options.onEvent![eventType](event.data);
-              }
-            }
+            this.logger.debug(`Received ${eventType} event:`, event);
+
+            this.receiveEvent(eventType, event, () => {
+              this.notifySubscribers({ id: event.lastEventId, event: eventType, data: event.data });
+              this.callEventHandler(eventType, event.data);
+            });
           });
         });
       }
 
       // Only add listeners for event types that don't have specific handlers
-      console.log('Adding listeners for remaining event types');
+      this.logger.debug('Adding listeners for remaining event types');
 
       // Add listeners for event types that don't have specific handlers
-      const handledEventTypes = this.options.onEvent ? Object.keys(this.options.onEvent) : [];
-      const eventTypes = Object.values(SseEventTypes).filter(type => !handledEventTypes.includes(type));
+      // 'message' events already reach handleMessage through onmessage
+      const handledEventTypes = ['message', ...Object.keys(this.options.onEvent || {})];
+      const eventTypes = [...Object.values(SseEventTypes), ...this.extraEventTypes]
+        .filter(type => !handledEventTypes.includes(type));
 
       if (eventTypes.length > 0) {
-        console.log('Adding listeners for these event types:', eventTypes);
-        eventTypes.forEach(eventType => {
-          this.setupEventListener(eventType, (event) => {
-            console.log(`Received ${eventType} event:`, event);
-            
-            // Update last event ID and extract sequence number
-            if (event.lastEventId) {
-              this.lastEventId = event.lastEventId;
-            }
-            this.extractAndUpdateSequenceNumber(event.data);
-            
-            if (this.options.onMessage) {
-              const sseEvent: SseEvent = {
-                id: event.lastEventId,
-                event: eventType,
-                data: event.data,
-              };
-              this.options.onMessage(sseEvent);
-            }
-          });
-        });
+        this.logger.debug('Adding listeners for these event types:', eventTypes);
+        eventTypes.forEach(eventType => this.setupTypedEventListener(eventType));
       }
     } catch (error) {
-      this.status = SseConnectionStatus.ERROR;
-      console.error('Error creating EventSource:', error);
+      this.setStatus(SseConnectionStatus.ERROR);
+      this.logger.error('Error creating EventSource:', error);
       this.scheduleReconnect();
     }
   }
 
   /**
-   * Sets up an event listener for a specific event type
-   * This is a helper method to ensure event listeners are properly registered
+   * Builds the endpoint URL and creates the event source for the configured transport
    */
-  private setupEventListener(eventType: string, callback: (event: MessageEvent) => void): void {
-    // Add the callback to our internal event listeners map
-    this.addEventListener(eventType, callback);
+  private createEventSource(): SseEventSource {
+    if (this.options.replay) {
+      this.logger.info('Replaying recorded SSE session');
+      const eventSource = this.options.replay.createEventSource(this.options.filter);
+      eventSource.onrewind = () => this.resetStreamPosition();
+      return eventSource;
+    }
 
-    // Directly add the event listener to the EventSource
-    if (this.eventSource) {
-      console.log(`Directly adding event listener for: ${eventType} to EventSource`);
-      this.eventSource.addEventListener(eventType, callback);
-    } else {
-      console.error(`Cannot add event listener for ${eventType}: EventSource is null`);
+    // Validate the filter is a known event type
+    if (this.options.filter && !isValidEventType(this.options.filter) && this.options.filter !== 'update') {
+      this.logger.warn(`Unknown event filter type: ${this.options.filter}`);
     }
+
+    const request = this.getConnectionRequest();
+    this.logger.info('Connecting to SSE endpoint:', request.url);
+
+    const useFetch = request.transport === SseTransport.FETCH;
+    const eventSource = useFetch ? this.createFetchEventSource(request) : new EventSource(request.url);
+    this.logger.debug(`${useFetch ? 'FetchEventSource' : 'EventSource'} created`);
+    return eventSource;
   }
 
   /**
-   * Closes the SSE connection
+   * Creates the real event source of a tab that became the cross-tab leader
+   * The previous leader wrote the shared checkpoint while this tab followed, so it is loaded
+   * before the connection is opened from it.
    */
-  public close(): void {
-    console.log('Closing SSE connection');
+  private async createLeaderEventSource(): Promise<SseEventSource> {
+    if (this.options.useCheckpoint) {
+      this.loadCheckpoint();
+      await this.whenCheckpointLoaded();
+    }
 
-    if (this.eventSource) {
-      // Clean up event listeners before closing
-      console.log('Cleaning up event listeners');
+    return this.createEventSource();
+  }
 
-      // Clean up standard event listeners
-      this.eventSource.onopen = null;
-      this.eventSource.onerror = null;
-      this.eventSource.onmessage = null;
+  /**
+   * Gets the BroadcastChannel name for cross-tab sharing
+   * Tabs share a connection when they use the same endpoint and filter.
+   */
+  private getCrossTabChannelName(): string {
+    return `sse-cross-tab:${this.options.url}:${this.options.filter || '*'}`;
+  }
+
+  /**
+   * Whether this tab holds the real connection
+   * Always true unless cross-tab sharing is enabled and another tab is the leader.
+   */
+  public isLeader(): boolean {
+    return !(this.eventSource instanceof CrossTabEventSource) || this.eventSource.isLeader;
+  }
+
+  /**
+   * Creates a fetch-based event source that sends the API key and last event ID as headers
+   */
+  private createFetchEventSource(request: SseConnectionRequest): FetchEventSource {
+    // FetchEventSource sends the Last-Event-ID header itself
+    const { 'Last-Event-ID': lastEventId = null, ...headers } = request.headers;
+
+    return new FetchEventSource(request.url, { headers, lastEventId, logger: this.logger.child('fetch') });
+  }
+
+  /**
+   * Records the HTTP status and server retry value reported by the fetch transport
+   */
+  private updateTransportState(): void {
+    if (this.eventSource instanceof FetchEventSource) {
+      this.lastHttpStatus = this.eventSource.status;
+
+      if (this.eventSource.retry !== null) {
+        this.serverRetryDelay = this.eventSource.retry;
+      }
+    }
+  }
+
+  /**
+   * Sets up a listener that forwards an event type without a specific handler to onMessage
+   */
+  private setupTypedEventListener(eventType: string): void {
+    this.setupEventListener(eventType, (event) => {
+      this.logger.debug(`Received ${eventType} event:`, event);
+
+      this.receiveEvent(eventType, event, () => {
+        const sseEvent: SseEvent = {
+          id: event.lastEventId,
+          event: eventType,
+          data: event.data,
+        };
+        this.notifySubscribers(sseEvent);
+
+        if (this.options.onMessage) {
+          this.options.onMessage(sseEvent);
+        }
+      });
+    });
+  }
+
+  /**
+   * Calls the onEvent handler for an event type with the parsed event data
+   */
+  private callEventHandler(eventType: string, rawData: string): void {
+    const handler = this.options.onEvent?.[eventType];
+    if (!handler) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(rawData);
+      this.logger.debug(`Parsed ${eventType} data:`, data);
+      handler(data);
+    } catch (error) {
+      this.logger.error(`Error parsing event data for ${eventType}:`, error);
+      handler(rawData);
+    }
+  }
+
+  /**
+   * Subscribes to every event received on the stream
+   * Subscriptions survive reconnections until the returned function is called.
+   * @param listener Function called with each event
+   * @returns Function that removes the subscription
+   */
+  public subscribe(listener: (event: SseEvent) => void): () => void {
+    this.subscribers.add(listener);
+    return () => {
+      this.subscribers.delete(listener);
+    };
+  }
+
+  /**
+   * Makes the client listen for an event type that isn't one of the built-in types
+   * @param eventType Custom event type
+   */
+  public listenFor(eventType: string): void {
+    const knownTypes: string[] = [...Object.values(SseEventTypes), ...Object.keys(this.options.onEvent || {})];
+    if (knownTypes.includes(eventType) || this.extraEventTypes.has(eventType)) {
+      return;
+    }
+
+    this.extraEventTypes.add(eventType);
+
+    if (this.eventSource) {
+      this.setupTypedEventListener(eventType);
+    }
+  }
+
+  /**
+   * Listens for every type in the event registry, and for types defined later
+   */
+  private attachToEventRegistry(): void {
+    if (this.detachFromRegistry) {
+      return;
+    }
+
+    const registry = this.options.eventRegistry ?? sseEventRegistry;
+    registry.getTypes().forEach(type => this.listenFor(type));
+    this.detachFromRegistry = registry.onDefine(definition => this.listenFor(definition.type));
+  }
+
+  /**
+   * Stops following the event registry
+   */
+  private detachFromEventRegistry(): void {
+    if (this.detachFromRegistry) {
+      this.detachFromRegistry();
+      this.detachFromRegistry = null;
+    }
+  }
+
+  /**
+   * Passes a diagnostic record to the diagnostic listeners
+   */
+  private notifyDiagnostics(event: SseDiagnosticEvent): void {
+    this.diagnosticListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error('Error in SSE diagnostic listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Changes the connection status and reports the change to the diagnostic listeners
+   */
+  private setStatus(status: SseConnectionStatus): void {
+    if (this.status === status) {
+      return;
+    }
+
+    this.status = status;
+    if (this.diagnosticListeners.size > 0) {
+      this.notifyDiagnostics({ kind: 'status', timestamp: Date.now(), status });
+    }
+  }
+
+  /**
+   * Passes an event to the subscribers
+   */
+  private notifySubscribers(event: SseEvent): void {
+    this.subscribers.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error('Error in SSE subscriber:', error);
+      }
+    });
+  }
+
+  /**
+   * Sets up an event listener for a specific event type
+   * This is a helper method to ensure event listeners are properly registered
+   */
+  private setupEventListener(eventType: string, callback: (event: MessageEvent) => void): void {
+    if (!this.eventSource) {
+      this.logger.error(`Cannot add event listener for ${eventType}: EventSource is null`);
+      return;
+    }
+
+    // The internal event listeners map dispatches to the callback, so it isn't added to the EventSource directly
+    this.addEventListener(eventType, callback);
+  }
+
+  /**
+   * Closes the SSE connection
+   */
+  public close(): void {
+    this.logger.info('Closing SSE connection');
+
+    // Cancel a connection attempt still waiting for the checkpoint
+    this.connectAttempt++;
+    this.closeEventSource();
+    this.detachNetworkListeners();
+    this.detachPageLifecycleListeners();
+    this.detachFromEventRegistry();
+    setClientLive(this, false);
+
+    this.setStatus(SseConnectionStatus.CLOSED);
+
+    this.clearRetryTimer();
+    this.clearHiddenTimer();
+
+    // Write the keys of events delivered since the last throttled write
+    if (this.checkpointSaveTimer !== null) {
+      this.saveCheckpoint();
+    }
+
+    if (this.options.onClose) {
+      this.options.onClose();
+    }
+
+    this.logger.info('SSE connection closed');
+  }
+
+  /**
+   * Closes the underlying event source without changing the client status
+   */
+  private closeEventSource(): void {
+    this.stopWatchdog();
+    this.stats.recordDisconnect();
+
+    // Buffered events are replayed from the checkpoint on the next connection
+    this.clearReorderBuffer();
+
+    if (this.eventSource) {
+      // Clean up event listeners before closing
+      this.logger.debug('Cleaning up event listeners');
+
+      // Clean up standard event listeners
+      this.eventSource.onopen = null;
+      this.eventSource.onerror = null;
+      this.eventSource.onmessage = null;
 
       // Close the connection
       this.eventSource.close();
       this.eventSource = null;
     }
+  }
 
-    this.status = SseConnectionStatus.CLOSED;
-
+  /**
+   * Cancels any pending reconnection attempt
+   */
+  private clearRetryTimer(): void {
     if (this.retryTimer !== null) {
       window.clearTimeout(this.retryTimer);
       this.retryTimer = null;
     }
+    this.nextRetryAt = null;
+  }
 
-    if (this.options.onClose) {
-      this.options.onClose();
+  /**
+   * Checks whether the browser reports a network connection
+   */
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  /**
+   * Starts listening for the browser's online/offline events
+   */
+  private attachNetworkListeners(): void {
+    if (this.networkListenersAttached || typeof window === 'undefined') {
+      return;
+    }
+
+    window.addEventListener('online', this.onlineListener);
+    window.addEventListener('offline', this.offlineListener);
+    this.networkListenersAttached = true;
+  }
+
+  /**
+   * Stops listening for the browser's online/offline events
+   */
+  private detachNetworkListeners(): void {
+    if (!this.networkListenersAttached) {
+      return;
+    }
+
+    window.removeEventListener('online', this.onlineListener);
+    window.removeEventListener('offline', this.offlineListener);
+    this.networkListenersAttached = false;
+  }
+
+  /**
+   * Pauses the connection until the browser comes back online
+   */
+  private enterOffline(): void {
+    if (this.status === SseConnectionStatus.OFFLINE) {
+      return;
+    }
+
+    this.logger.info('Network offline, pausing SSE reconnection');
+    this.clearRetryTimer();
+    this.closeEventSource();
+    this.setStatus(SseConnectionStatus.OFFLINE);
+
+    if (this.options.onOffline) {
+      this.options.onOffline();
+    }
+  }
+
+  /**
+   * Handles the browser's offline event
+   */
+  private handleOffline(): void {
+    // A suspended stream stays suspended; it checks the network when it resumes
+    if (this.status === SseConnectionStatus.CLOSED || this.status === SseConnectionStatus.SUSPENDED) {
+      return;
     }
 
-    console.log('SSE connection closed');
+    this.enterOffline();
+  }
+
+  /**
+   * Handles the browser's online event by reconnecting right away
+   */
+  private handleOnline(): void {
+    if (this.status !== SseConnectionStatus.OFFLINE) {
+      return;
+    }
+
+    this.logger.info('Network online, resuming SSE connection');
+
+    // Attempts made while offline don't count against the retry budget
+    this.retryCount = 0;
+    this.retryDelay = 0;
+
+    if (this.options.onOnline) {
+      this.options.onOnline();
+    }
+
+    this.connect();
+  }
+
+  /**
+   * Starts listening for page visibility and back/forward cache events
+   */
+  private attachPageLifecycleListeners(): void {
+    if (this.pageLifecycleListenersAttached || typeof window === 'undefined') {
+      return;
+    }
+
+    document.addEventListener('visibilitychange', this.visibilityListener);
+    window.addEventListener('pagehide', this.pageHideListener);
+    window.addEventListener('pageshow', this.pageShowListener);
+    this.pageLifecycleListenersAttached = true;
+  }
+
+  /**
+   * Stops listening for page visibility and back/forward cache events
+   */
+  private detachPageLifecycleListeners(): void {
+    if (!this.pageLifecycleListenersAttached) {
+      return;
+    }
+
+    document.removeEventListener('visibilitychange', this.visibilityListener);
+    window.removeEventListener('pagehide', this.pageHideListener);
+    window.removeEventListener('pageshow', this.pageShowListener);
+    this.pageLifecycleListenersAttached = false;
+  }
+
+  /**
+   * Cancels the pending hidden-tab timeout
+   */
+  private clearHiddenTimer(): void {
+    if (this.hiddenTimer !== null) {
+      window.clearTimeout(this.hiddenTimer);
+      this.hiddenTimer = null;
+    }
+  }
+
+  /**
+   * Closes the stream until the page is visible again, keeping the checkpoint
+   */
+  private suspend(): void {
+    if (this.status === SseConnectionStatus.CLOSED || this.status === SseConnectionStatus.SUSPENDED) {
+      return;
+    }
+
+    this.logger.info('Suspending SSE connection');
+    this.saveCheckpoint();
+    this.clearHiddenTimer();
+    this.clearRetryTimer();
+    this.closeEventSource();
+    this.setStatus(SseConnectionStatus.SUSPENDED);
+
+    if (this.options.onSuspend) {
+      this.options.onSuspend();
+    }
+  }
+
+  /**
+   * Reconnects a suspended stream from the stored checkpoint
+   */
+  private resume(): void {
+    if (this.status !== SseConnectionStatus.SUSPENDED) {
+      return;
+    }
+
+    this.logger.info('Resuming SSE connection');
+
+    // Another tab may have advanced the stored checkpoint in the meantime
+    if (this.options.useCheckpoint) {
+      this.loadCheckpoint();
+    }
+
+    this.retryCount = 0;
+    this.retryDelay = 0;
+
+    if (this.options.onResume) {
+      this.options.onResume();
+    }
+
+    this.connect();
+  }
+
+  /**
+   * Handles the document's visibilitychange event according to the idle policy
+   */
+  private handleVisibilityChange(): void {
+    const idlePolicy = this.options.idlePolicy;
+
+    if (document.visibilityState === 'hidden') {
+      if (idlePolicy && this.hiddenTimer === null) {
+        this.hiddenTimer = window.setTimeout(() => {
+          this.hiddenTimer = null;
+          this.suspend();
+        }, idlePolicy.hiddenTimeout);
+      }
+      return;
+    }
+
+    this.clearHiddenTimer();
+    this.resume();
+  }
+
+  /**
+   * Handles the pagehide event by flushing the checkpoint
+   * When the page enters the back/forward cache the stream is closed as well,
+   * since an open connection can keep the page out of the cache.
+   */
+  private handlePageHide(event: PageTransitionEvent): void {
+    this.saveCheckpoint();
+
+    if (event.persisted && this.options.idlePolicy?.closeOnBfcache !== false) {
+      this.suspend();
+    }
+  }
+
+  /**
+   * Handles the pageshow event by resuming after a back/forward cache restore
+   */
+  private handlePageShow(event: PageTransitionEvent): void {
+    if (event.persisted) {
+      this.resume();
+    }
   }
 
   /**
@@ -407,15 +1294,15 @@ export class SseClient {
 
       // Add the event listener to the EventSource if it exists
       if (this.eventSource) {
-        console.log(`Adding event listener for: ${eventType} to EventSource`);
+        this.logger.debug(`Adding event listener for: ${eventType} to EventSource`);
         this.eventSource.addEventListener(eventType, (event) => {
-          console.log(`Event received for ${eventType}:`, event);
+          this.logger.debug(`Event received for ${eventType}:`, event);
           const listeners = this.eventListeners.get(eventType) || [];
-          console.log(`Calling ${listeners.length} listeners for ${eventType}`);
+          this.logger.debug(`Calling ${listeners.length} listeners for ${eventType}`);
           listeners.forEach(listener => listener(event));
         });
       } else {
-        console.error(`Cannot add event listener for ${eventType}: EventSource is null`);
+        this.logger.error(`Cannot add event listener for ${eventType}: EventSource is null`);
       }
     }
 
@@ -445,9 +1332,14 @@ export class SseClient {
    * Handles the open event
    */
   private handleOpen(): void {
-    console.log('SSE connection opened');
-    this.status = SseConnectionStatus.OPEN;
+    this.logger.info('SSE connection opened');
+    this.updateTransportState();
+    this.stats.recordOpen();
+    this.setStatus(SseConnectionStatus.OPEN);
     this.retryCount = 0;
+    this.retryDelay = 0;
+    this.lastHeartbeatAt = null;
+    this.recordActivity('open');
 
     if (this.options.onOpen) {
       this.options.onOpen();
@@ -458,13 +1350,23 @@ export class SseClient {
    * Handles the error event
    */
   private handleError(event: Event): void {
-    console.error('SSE connection error:', event);
-    this.status = SseConnectionStatus.ERROR;
+    this.logger.error('SSE connection error:', event);
+    this.updateTransportState();
+    this.stopWatchdog();
+    this.stats.recordDisconnect();
+    this.setStatus(SseConnectionStatus.ERROR);
 
     if (this.options.onError) {
       this.options.onError(event);
     }
 
+    // A client error such as a rejected API key fails the same way on every attempt
+    if (event instanceof SseHttpErrorEvent && event.isFatal) {
+      this.logger.error(`SSE endpoint responded with ${event.status} ${event.statusText}, not reconnecting`);
+      this.close();
+      return;
+    }
+
     this.scheduleReconnect();
   }
 
@@ -472,47 +1374,317 @@ export class SseClient {
    * Handles the message event
    */
   private handleMessage(event: MessageEvent): void {
-    console.log('SSE message received:', event);
-
-    // Update last event ID
-    if (event.lastEventId) {
-      this.lastEventId = event.lastEventId;
-    }
+    this.logger.debug('SSE message received:', event);
 
-    // Try to extract sequence number from the data
-    this.extractAndUpdateSequenceNumber(event.data);
-
-    if (this.options.onMessage) {
+    this.receiveEvent('message', event, () => {
       const sseEvent: SseEvent = {
         id: event.lastEventId,
         event: 'message',
         data: event.data,
       };
+      this.notifySubscribers(sseEvent);
 
-      console.log('Created SSE event object:', sseEvent);
-      this.options.onMessage(sseEvent);
-    } else {
-      console.warn('No message handler defined');
+      if (this.options.onMessage) {
+        this.logger.debug('Created SSE event object:', sseEvent);
+        this.options.onMessage(sseEvent);
+      } else if (!this.options.onEvent?.['message']) {
+        this.logger.warn('No message handler defined');
+      }
+
+      this.callEventHandler('message', event.data);
+    });
+  }
+
+  /**
+   * Entry point for every event received on the stream
+   * Records activity and metrics, then delivers the event in sequence order: events that skip ahead
+   * are held in the reorder buffer while gap detection waits for the missing ones.
+   * Events that were already delivered are dropped.
+   * @param eventType Event type
+   * @param event Received event
+   * @param deliverEvent Passes the event to the handlers and subscribers
+   */
+  private receiveEvent(eventType: string, event: MessageEvent, deliverEvent: () => void): void {
+    this.recordActivity(eventType);
+
+    const deliver = () => {
+      if (this.deduplicator?.isDuplicate({ id: event.lastEventId, event: eventType, data: event.data })) {
+        this.logger.debug(`Skipping duplicate ${eventType} event`);
+        return;
+      }
+      deliverEvent();
+
+      // Events without sequence numbers don't save the checkpoint, but their keys are persisted too
+      if (this.persistDedupeKeys) {
+        this.scheduleCheckpointSave();
+      }
+    };
+
+    const payload = parseEventData(event.data);
+    this.stats.recordEvent(eventType, event.data, payload);
+
+    if (this.diagnosticListeners.size > 0) {
+      this.notifyDiagnostics({
+        kind: 'frame',
+        timestamp: Date.now(),
+        frame: { id: event.lastEventId, event: eventType, data: event.data },
+        payload,
+      });
+    }
+
+    const sequence = this.extractSequenceNumber(payload);
+    if (sequence === null) {
+      if (event.lastEventId) {
+        this.lastEventId = event.lastEventId;
+      }
+      deliver();
+      return;
+    }
+
+    const lastSequence = this.lastSequenceNumber;
+
+    // Never move the checkpoint backwards
+    if (lastSequence !== null && sequence <= lastSequence) {
+      this.logger.warn(`Sequence regression: received ${sequence} after ${lastSequence}`);
+      if (this.options.onSequenceRegression) {
+        this.options.onSequenceRegression(sequence, lastSequence);
+      }
+      deliver();
+      return;
     }
+
+    if (this.options.gapDetection && lastSequence !== null && sequence > lastSequence + 1) {
+      this.bufferOutOfOrderEvent(sequence, { lastEventId: event.lastEventId, deliver });
+      return;
+    }
+
+    this.acceptSequence(sequence, event.lastEventId, deliver);
+    this.drainReorderBuffer();
   }
 
   /**
-   * Extracts sequence number from event data and updates checkpoint
+   * Advances the checkpoint to a sequence number and delivers its event
    */
-  private extractAndUpdateSequenceNumber(data: string): void {
+  private acceptSequence(sequence: number, lastEventId: string, deliver: () => void): void {
+    this.lastSequenceNumber = sequence;
+    if (lastEventId) {
+      this.lastEventId = lastEventId;
+    }
+    this.logger.debug('Updated sequence number:', this.lastSequenceNumber);
+
+    if (this.recoveringGapFrom !== null && sequence >= this.recoveringGapFrom) {
+      this.recoveringGapFrom = null;
+    }
+
+    // Save after delivering so the checkpoint includes the event's deduplication key
     try {
-      const parsedData = JSON.parse(data);
-      if (parsedData._sequence !== undefined) {
-        this.lastSequenceNumber = parsedData._sequence;
-        console.log('Updated sequence number:', this.lastSequenceNumber);
-        
-        // Save checkpoint after updating sequence number
-        this.saveCheckpoint();
+      deliver();
+    } finally {
+      this.scheduleCheckpointSave();
+    }
+  }
+
+  /**
+   * Holds an event that arrived ahead of the expected sequence number
+   */
+  private bufferOutOfOrderEvent(sequence: number, bufferedEvent: BufferedSseEvent): void {
+    if (this.reorderBuffer.size === 0) {
+      const from = (this.lastSequenceNumber ?? 0) + 1;
+      const to = sequence - 1;
+      this.logger.warn(`Sequence gap detected: missing ${from}-${to}`);
+
+      if (this.options.onGap) {
+        this.options.onGap(from, to);
+      }
+
+      this.gapTimer = window.setTimeout(() => {
+        this.gapTimer = null;
+        this.resolveGap();
+      }, this.options.gapDetection?.gapTimeout ?? 2000);
+    }
+
+    this.reorderBuffer.set(sequence, bufferedEvent);
+
+    if (this.reorderBuffer.size > (this.options.gapDetection?.maxBufferSize ?? 100)) {
+      this.resolveGap();
+    }
+  }
+
+  /**
+   * Delivers buffered events that have become contiguous with the last sequence number
+   */
+  private drainReorderBuffer(): void {
+    while (this.lastSequenceNumber !== null && this.reorderBuffer.has(this.lastSequenceNumber + 1)) {
+      const sequence = this.lastSequenceNumber + 1;
+      const bufferedEvent = this.reorderBuffer.get(sequence)!;
+      this.reorderBuffer.delete(sequence);
+      this.acceptSequence(sequence, bufferedEvent.lastEventId, bufferedEvent.deliver);
+    }
+
+    if (this.reorderBuffer.size === 0) {
+      this.clearReorderBuffer();
+    }
+  }
+
+  /**
+   * Gives up waiting for a missing range
+   * The first time a gap can't be filled the client reconnects from the checkpoint so the
+   * server replays the range; if the same gap is still there afterwards it is accepted and
+   * the buffered events are delivered.
+   */
+  private resolveGap(): void {
+    const sequences = Array.from(this.reorderBuffer.keys()).sort((a, b) => a - b);
+    if (sequences.length === 0) {
+      return;
+    }
+
+    const from = (this.lastSequenceNumber ?? 0) + 1;
+
+    if (this.options.gapDetection?.recoverGaps !== false && this.recoveringGapFrom !== from) {
+      this.logger.warn(`Sequence gap ${from}-${sequences[0] - 1} not filled, reconnecting from checkpoint`);
+      this.recoveringGapFrom = from;
+
+      // The replay resends the buffered events after the missing ones
+      this.clearReorderBuffer();
+      this.closeEventSource();
+      this.connect();
+      return;
+    }
+
+    this.logger.warn(`Sequence gap ${from}-${sequences[0] - 1} not filled, skipping it`);
+    const bufferedEvents = sequences.map(sequence => [sequence, this.reorderBuffer.get(sequence)!] as const);
+    this.clearReorderBuffer();
+    this.recoveringGapFrom = null;
+
+    bufferedEvents.forEach(([sequence, bufferedEvent]) => {
+      this.acceptSequence(sequence, bufferedEvent.lastEventId, bufferedEvent.deliver);
+    });
+  }
+
+  /**
+   * Drops the reorder buffer and stops waiting for a missing range
+   */
+  private clearReorderBuffer(): void {
+    this.reorderBuffer.clear();
+
+    if (this.gapTimer !== null) {
+      window.clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+  }
+
+  /**
+   * Forgets the sequence numbers, event ID and deduplication keys seen so far
+   * Used when a replay rewinds, so its frames are delivered again instead of being
+   * dropped as duplicates or reported as sequence regressions.
+   */
+  private resetStreamPosition(): void {
+    this.logger.info('Replay rewound, resetting stream position');
+    this.clearReorderBuffer();
+    this.recoveringGapFrom = null;
+    this.lastSequenceNumber = null;
+    this.lastEventId = null;
+    this.deduplicator?.clear();
+  }
+
+  /**
+   * Records that the stream is alive and re-arms the heartbeat watchdog
+   * Heartbeat events also feed the learned heartbeat interval.
+   */
+  private recordActivity(eventType: string): void {
+    const now = Date.now();
+    this.lastActivityAt = now;
+
+    if (eventType === SseEventTypes.Heartbeat) {
+      if (this.lastHeartbeatAt !== null) {
+        const gap = now - this.lastHeartbeatAt;
+        this.learnedHeartbeatInterval = this.learnedHeartbeatInterval === null
+          ? gap
+          : Math.round(this.learnedHeartbeatInterval * 0.7 + gap * 0.3);
       }
-    } catch {
-      // Data might not be JSON or might not contain sequence number
-      // This is fine, not all events may have sequence numbers
+      this.lastHeartbeatAt = now;
+    }
+
+    this.armWatchdog();
+  }
+
+  /**
+   * Starts (or restarts) the watchdog timer for the current heartbeat interval
+   */
+  private armWatchdog(): void {
+    const interval = this.getHeartbeatInterval();
+    if (interval === null || this.status !== SseConnectionStatus.OPEN) {
+      return;
+    }
+
+    this.stopWatchdog();
+
+    const timeout = interval * (this.options.heartbeat?.missedHeartbeats ?? 2);
+    this.watchdogTimer = window.setTimeout(() => {
+      this.watchdogTimer = null;
+      this.handleStale();
+    }, timeout);
+  }
+
+  /**
+   * Stops the watchdog timer
+   */
+  private stopWatchdog(): void {
+    if (this.watchdogTimer !== null) {
+      window.clearTimeout(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+
+  /**
+   * Handles a connection that has gone silent by reconnecting from the checkpoint
+   */
+  private handleStale(): void {
+    const silentFor = this.lastActivityAt !== null ? Date.now() - this.lastActivityAt : 0;
+    this.logger.warn(`SSE connection stale: no events for ${silentFor}ms, reconnecting`);
+
+    this.setStatus(SseConnectionStatus.STALE);
+    this.saveCheckpoint();
+
+    if (this.options.onStale) {
+      this.options.onStale(silentFor);
+    }
+
+    // Drop the half-open connection without reporting a close, then reconnect in place of any pending retry
+    this.closeEventSource();
+    this.clearRetryTimer();
+    this.connect();
+  }
+
+  /**
+   * Extracts the sequence number from a parsed event payload
+   * @returns The sequence number, or null if the event doesn't carry one
+   */
+  private extractSequenceNumber(payload: unknown): number | null {
+    // Not all events are JSON or have sequence numbers
+    const sequence = (payload as { _sequence?: unknown } | undefined)?._sequence;
+    return typeof sequence === 'number' ? sequence : null;
+  }
+
+  /**
+   * Computes the delay before the next reconnection attempt
+   * A retry value sent by the server takes precedence over the backoff strategy, up to maxRetryDelay.
+   */
+  private getReconnectDelay(): number {
+    if (this.options.respectServerRetry && this.serverRetryDelay !== null) {
+      // A misconfigured server must not stall the client, e.g. with retry: 86400000
+      return Math.min(this.serverRetryDelay, this.options.maxRetryDelay || 30000);
     }
+
+    const backoff = this.options.backoff || BackoffStrategies.FIXED;
+    const strategy = typeof backoff === 'function'
+      ? backoff
+      : createBackoffStrategy(backoff, {
+          baseDelay: this.options.retryTimeout || 3000,
+          maxDelay: this.options.maxRetryDelay || 30000,
+        });
+
+    return strategy(this.retryCount, this.retryDelay);
   }
 
   /**
@@ -523,6 +1695,12 @@ export class SseClient {
       return;
     }
 
+    // Wait for the online event instead of spending retry attempts
+    if (this.options.networkAware && !this.isOnline()) {
+      this.enterOffline();
+      return;
+    }
+
     if (this.retryTimer !== null) {
       window.clearTimeout(this.retryTimer);
       this.retryTimer = null;
@@ -530,17 +1708,84 @@ export class SseClient {
 
     if (this.retryCount < (this.options.maxRetryAttempts || 5)) {
       this.retryCount++;
-      const delay = this.options.retryTimeout || 3000;
+      const delay = this.getReconnectDelay();
+      this.retryDelay = delay;
+      this.nextRetryAt = Date.now() + delay;
 
-      console.log(`Scheduling reconnection attempt ${this.retryCount} in ${delay}ms`);
+      this.logger.info(`Scheduling reconnection attempt ${this.retryCount} in ${delay}ms`);
+
+      const retry: SseRetryInfo = {
+        attempt: this.retryCount,
+        delay,
+        nextRetryAt: this.nextRetryAt,
+      };
+      this.notifyDiagnostics({ kind: 'retry', timestamp: Date.now(), retry });
+
+      if (this.options.onRetryScheduled) {
+        this.options.onRetryScheduled(retry);
+      }
 
       this.retryTimer = window.setTimeout(() => {
-        console.log(`Attempting to reconnect (${this.retryCount}/${this.options.maxRetryAttempts})`);
+        this.retryTimer = null;
+        this.nextRetryAt = null;
+        this.logger.info(`Attempting to reconnect (${this.retryCount}/${this.options.maxRetryAttempts})`);
         this.connect();
       }, delay);
     } else {
-      console.error(`Maximum retry attempts (${this.options.maxRetryAttempts}) reached`);
+      this.logger.error(`Maximum retry attempts (${this.options.maxRetryAttempts}) reached`);
       this.close();
     }
   }
 }
+
+/** Minimum time between checkpoint writes that include the deduplication keys */
+const DEDUPE_KEYS_SAVE_INTERVAL = 1000;
+
+const liveClients: Set<SseClient> = new Set();
+const liveClientListeners: Set<() => void> = new Set();
+
+/**
+ * Adds a client to or removes it from the live clients
+ */
+function setClientLive(client: SseClient, live: boolean): void {
+  if (live === liveClients.has(client)) {
+    return;
+  }
+
+  if (live) {
+    liveClients.add(client);
+  } else {
+    liveClients.delete(client);
+  }
+  liveClientListeners.forEach(listener => listener());
+}
+
+/**
+ * Gets the clients that are connected or trying to connect (connect() was called, close() wasn't)
+ */
+export function getLiveClients(): SseClient[] {
+  return Array.from(liveClients);
+}
+
+/**
+ * Calls a listener whenever a client becomes live or is closed
+ * @returns Function that removes the listener
+ */
+export function onLiveClientsChange(listener: () => void): () => void {
+  liveClientListeners.add(listener);
+  return () => {
+    liveClientListeners.delete(listener);
+  };
+}
+
+/**
+ * Parses the data of an event
+ * @returns The parsed JSON, or undefined if the data isn't valid JSON
+ */
+function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
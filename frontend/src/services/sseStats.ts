@@ -0,0 +1,336 @@
+/**
+ * Counters of one event type
+ */
+export interface SseTypeStats {
+  /** Events received, including duplicates */
+  events: number;
+
+  /** UTF-8 size of the event data in bytes */
+  bytes: number;
+}
+
+/**
+ * End-to-end latency, from the payload timestamp to the time the event was received
+ * Includes clock skew between server and browser, and the age of events replayed
+ * from the checkpoint after a reconnection.
+ */
+export interface SseLatencyStats {
+  /** Latency of the last timestamped event in milliseconds */
+  last: number | null;
+
+  /** Average latency in milliseconds */
+  average: number | null;
+
+  /** Highest latency in milliseconds */
+  max: number | null;
+
+  /** Number of timestamped events measured */
+  samples: number;
+}
+
+/**
+ * Metrics over a rolling time window
+ */
+export interface SseStatsWindow {
+  /** Length of the window in milliseconds */
+  duration: number;
+
+  /** Events received in the window */
+  events: number;
+
+  /** Bytes received in the window */
+  bytes: number;
+
+  /** Events per second over the window */
+  eventsPerSecond: number;
+
+  /** Bytes per second over the window */
+  bytesPerSecond: number;
+
+  /** Reconnections in the window */
+  reconnects: number;
+
+  /** Events whose data wasn't valid JSON in the window */
+  parseFailures: number;
+
+  /** Average latency in the window in milliseconds */
+  averageLatency: number | null;
+
+  /** Highest latency in the window in milliseconds */
+  maxLatency: number | null;
+}
+
+/**
+ * Connection and throughput metrics of an SSE client
+ */
+export interface SseStats {
+  /** Time the current connection opened (milliseconds since the epoch), or null if not connected */
+  connectedAt: number | null;
+
+  /** Time the last successful connection took to open in milliseconds */
+  connectTime: number | null;
+
+  /** Total time spent connected in milliseconds */
+  uptime: number;
+
+  /** Number of times the connection was opened again after the first time */
+  reconnects: number;
+
+  /** Events received, including duplicates */
+  events: number;
+
+  /** UTF-8 size of all event data in bytes */
+  bytes: number;
+
+  /** Counters per event type */
+  eventsByType: Record<string, SseTypeStats>;
+
+  /** Events whose data wasn't valid JSON */
+  parseFailures: number;
+
+  /** End-to-end latency of all timestamped events */
+  latency: SseLatencyStats;
+
+  /** Metrics over the last minute and the last five minutes */
+  windows: {
+    oneMinute: SseStatsWindow;
+    fiveMinutes: SseStatsWindow;
+  };
+}
+
+/**
+ * Counters of one second
+ */
+interface SseStatsBucket {
+  second: number;
+  events: number;
+  bytes: number;
+  reconnects: number;
+  parseFailures: number;
+  latencySum: number;
+  latencySamples: number;
+  latencyMax: number | null;
+}
+
+const ONE_MINUTE = 60 * 1000;
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+/**
+ * Collects the metrics of an SSE client
+ * Totals are kept since creation; the rolling windows are built from per-second buckets
+ * covering the last five minutes.
+ */
+export class SseStatsCollector {
+  private connectStartedAt: number | null = null;
+  private connectedAt: number | null = null;
+  private connectTime: number | null = null;
+  private closedUptime = 0;
+  private opened = false;
+  private reconnects = 0;
+  private events = 0;
+  private bytes = 0;
+  private eventsByType: Map<string, SseTypeStats> = new Map();
+  private parseFailures = 0;
+  private lastLatency: number | null = null;
+  private latencySum = 0;
+  private latencySamples = 0;
+  private latencyMax: number | null = null;
+  private buckets: SseStatsBucket[] = [];
+
+  /**
+   * Records the start of a connection attempt
+   */
+  public recordConnecting(now = Date.now()): void {
+    this.connectStartedAt = now;
+  }
+
+  /**
+   * Records that the connection opened
+   */
+  public recordOpen(now = Date.now()): void {
+    if (this.connectedAt !== null) {
+      return;
+    }
+
+    if (this.opened) {
+      this.reconnects++;
+      this.getBucket(now).reconnects++;
+    }
+    this.opened = true;
+    this.connectedAt = now;
+    this.connectTime = this.connectStartedAt !== null ? now - this.connectStartedAt : null;
+    this.connectStartedAt = null;
+  }
+
+  /**
+   * Records that the connection was lost or closed
+   */
+  public recordDisconnect(now = Date.now()): void {
+    if (this.connectedAt !== null) {
+      this.closedUptime += now - this.connectedAt;
+      this.connectedAt = null;
+    }
+  }
+
+  /**
+   * Records a received event
+   * @param eventType Event type
+   * @param data Raw event data
+   * @param payload Parsed event data, or undefined if it wasn't valid JSON
+   */
+  public recordEvent(eventType: string, data: string, payload: unknown, now = Date.now()): void {
+    const bytes = encoder.encode(data).length;
+    const typeStats = this.eventsByType.get(eventType) ?? { events: 0, bytes: 0 };
+    typeStats.events++;
+    typeStats.bytes += bytes;
+    this.eventsByType.set(eventType, typeStats);
+
+    this.events++;
+    this.bytes += bytes;
+
+    const bucket = this.getBucket(now);
+    bucket.events++;
+    bucket.bytes += bytes;
+
+    if (payload === undefined) {
+      this.parseFailures++;
+      bucket.parseFailures++;
+      return;
+    }
+
+    const latency = getLatency(payload, now);
+    if (latency !== null) {
+      this.lastLatency = latency;
+      this.latencySum += latency;
+      this.latencySamples++;
+      this.latencyMax = this.latencyMax === null ? latency : Math.max(this.latencyMax, latency);
+
+      bucket.latencySum += latency;
+      bucket.latencySamples++;
+      bucket.latencyMax = bucket.latencyMax === null ? latency : Math.max(bucket.latencyMax, latency);
+    }
+  }
+
+  /**
+   * Gets a snapshot of the metrics
+   */
+  public getStats(now = Date.now()): SseStats {
+    this.pruneBuckets(now);
+
+    const eventsByType: Record<string, SseTypeStats> = {};
+    this.eventsByType.forEach((typeStats, eventType) => {
+      eventsByType[eventType] = { ...typeStats };
+    });
+
+    return {
+      connectedAt: this.connectedAt,
+      connectTime: this.connectTime,
+      uptime: this.closedUptime + (this.connectedAt !== null ? now - this.connectedAt : 0),
+      reconnects: this.reconnects,
+      events: this.events,
+      bytes: this.bytes,
+      eventsByType,
+      parseFailures: this.parseFailures,
+      latency: {
+        last: this.lastLatency,
+        average: this.latencySamples > 0 ? this.latencySum / this.latencySamples : null,
+        max: this.latencyMax,
+        samples: this.latencySamples,
+      },
+      windows: {
+        oneMinute: this.getWindow(ONE_MINUTE, now),
+        fiveMinutes: this.getWindow(FIVE_MINUTES, now),
+      },
+    };
+  }
+
+  /**
+   * Sums the buckets of a rolling window
+   */
+  private getWindow(duration: number, now: number): SseStatsWindow {
+    const firstSecond = Math.floor((now - duration) / 1000) + 1;
+    const window: SseStatsWindow = {
+      duration,
+      events: 0,
+      bytes: 0,
+      eventsPerSecond: 0,
+      bytesPerSecond: 0,
+      reconnects: 0,
+      parseFailures: 0,
+      averageLatency: null,
+      maxLatency: null,
+    };
+    let latencySum = 0;
+    let latencySamples = 0;
+
+    this.buckets
+      .filter(bucket => bucket.second >= firstSecond)
+      .forEach(bucket => {
+        window.events += bucket.events;
+        window.bytes += bucket.bytes;
+        window.reconnects += bucket.reconnects;
+        window.parseFailures += bucket.parseFailures;
+        latencySum += bucket.latencySum;
+        latencySamples += bucket.latencySamples;
+        if (bucket.latencyMax !== null) {
+          window.maxLatency = window.maxLatency === null ? bucket.latencyMax : Math.max(window.maxLatency, bucket.latencyMax);
+        }
+      });
+
+    window.eventsPerSecond = window.events / (duration / 1000);
+    window.bytesPerSecond = window.bytes / (duration / 1000);
+    window.averageLatency = latencySamples > 0 ? latencySum / latencySamples : null;
+    return window;
+  }
+
+  /**
+   * Gets the bucket of the current second, creating it if needed
+   */
+  private getBucket(now: number): SseStatsBucket {
+    const second = Math.floor(now / 1000);
+    const last = this.buckets[this.buckets.length - 1];
+    if (last && last.second === second) {
+      return last;
+    }
+
+    this.pruneBuckets(now);
+    const bucket: SseStatsBucket = {
+      second,
+      events: 0,
+      bytes: 0,
+      reconnects: 0,
+      parseFailures: 0,
+      latencySum: 0,
+      latencySamples: 0,
+      latencyMax: null,
+    };
+    this.buckets.push(bucket);
+    return bucket;
+  }
+
+  /**
+   * Drops the buckets older than the longest window
+   */
+  private pruneBuckets(now: number): void {
+    const firstSecond = Math.floor((now - FIVE_MINUTES) / 1000) + 1;
+    while (this.buckets.length > 0 && this.buckets[0].second < firstSecond) {
+      this.buckets.shift();
+    }
+  }
+}
+
+/**
+ * Gets the time between the payload timestamp and now
+ * @returns The latency in milliseconds, or null if the payload has no valid timestamp
+ */
+function getLatency(payload: unknown, now: number): number | null {
+  const timestamp = (payload as { timestamp?: unknown } | null)?.timestamp;
+  if (typeof timestamp !== 'string') {
+    return null;
+  }
+
+  const sentAt = Date.parse(timestamp);
+  return Number.isNaN(sentAt) ? null : now - sentAt;
+}
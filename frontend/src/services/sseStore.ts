@@ -0,0 +1,374 @@
+import { SseClient, SseConnectionStatus } from './sseService';
+import type { SseEvent, SseOptions } from './sseService';
+import type { BackoffStrategy } from './backoff';
+import type { DedupeKeyFunction, SseDedupeOptions } from './messageDeduplicator';
+
+/**
+ * Options for an SSE store
+ */
+export interface SseStoreOptions extends SseOptions {
+  /** Whether to connect as soon as the store has a subscriber (default: true) */
+  autoConnect?: boolean;
+
+  /** Maximum number of events to store (default: 100) */
+  maxEvents?: number;
+
+  /** Whether to auto-clear old events when max is reached (default: true) */
+  autoClearOldEvents?: boolean;
+}
+
+/**
+ * State of an SSE store
+ * Snapshots are immutable: every change creates a new one.
+ */
+export interface SseStoreSnapshot {
+  /** Current connection status */
+  status: SseConnectionStatus;
+
+  /** Last received event */
+  lastEvent: SseEvent | null;
+
+  /** Received events, oldest first */
+  events: SseEvent[];
+
+  /** Time of the next scheduled reconnection attempt (milliseconds since the epoch), if any */
+  nextRetryAt: number | null;
+
+  /** Client currently owned by the store */
+  client: SseClient;
+}
+
+/**
+ * SSE store
+ * Owns an SseClient and exposes its state as snapshots for useSyncExternalStore. The client
+ * is connected while the store has subscribers. Callbacks and function options (backoff,
+ * dedupe.key) are always called from the latest options, and class instances (checkpointStore,
+ * logger, eventRegistry, replay) are kept from the options the client was created with; changing
+ * any other option replaces the client, and the new client connects if the previous one was
+ * meant to be connected.
+ */
+export class SseStore {
+  private options: SseStoreOptions;
+  private client: SseClient;
+  private snapshot: SseStoreSnapshot;
+  private shouldConnect: boolean;
+  private listeners: Set<() => void> = new Set();
+  private eventListeners: Set<(event: SseEvent) => void> = new Set();
+
+  /**
+   * Creates a new SSE store; the client connects once the store has a subscriber
+   * @param options Client and store options
+   */
+  constructor(options: SseStoreOptions) {
+    this.options = options;
+    this.shouldConnect = options.autoConnect !== false;
+    this.client = this.createClient();
+    this.snapshot = {
+      status: SseConnectionStatus.CLOSED,
+      lastEvent: null,
+      events: [],
+      nextRetryAt: null,
+      client: this.client,
+    };
+  }
+
+  /**
+   * Registers a listener for snapshot changes; the first listener connects the client and
+   * removing the last one closes it
+   * @returns Function that removes the listener
+   */
+  public readonly subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1 && this.shouldConnect) {
+      this.client.connect();
+    }
+
+    return () => {
+      if (this.listeners.delete(listener) && this.listeners.size === 0) {
+        this.client.close();
+      }
+    };
+  };
+
+  /**
+   * Gets the current snapshot
+   */
+  public readonly getSnapshot = (): SseStoreSnapshot => this.snapshot;
+
+  /**
+   * Replaces the options
+   * Callbacks and function options take effect immediately; class instances are only replaced
+   * along with the client, and any other change replaces it.
+   * @param options Client and store options
+   */
+  public setOptions(options: SseStoreOptions): void {
+    const previous = this.options;
+    this.options = options;
+
+    if (requiresNewClient(previous, options)) {
+      this.replaceClient();
+    }
+  }
+
+  /**
+   * Registers a listener for every event received by the current client and the ones replacing it
+   * @returns Function that removes the listener
+   */
+  public subscribeEvents(listener: (event: SseEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Connects the client, and the clients replacing it
+   */
+  public connect(): void {
+    this.shouldConnect = true;
+    this.client.connect();
+  }
+
+  /**
+   * Closes the client; clients replacing it stay closed until connect is called
+   */
+  public disconnect(): void {
+    this.shouldConnect = false;
+    this.client.close();
+  }
+
+  /**
+   * Clears the received events
+   */
+  public clearEvents(): void {
+    this.update({ events: [], lastEvent: null });
+  }
+
+  /**
+   * Creates a client whose callbacks update the store while it is the current client
+   */
+  private createClient(): SseClient {
+    const { backoff, dedupe } = this.options;
+    const client: SseClient = new SseClient({
+      ...this.options,
+      backoff: typeof backoff === 'function'
+        ? (attempt, previousDelay) => (this.options.backoff as BackoffStrategy)(attempt, previousDelay)
+        : backoff,
+      dedupe: dedupe && typeof dedupe.key === 'function'
+        ? { ...dedupe, key: (event) => ((this.options.dedupe as SseDedupeOptions).key as DedupeKeyFunction)(event) }
+        : dedupe,
+      onOpen: () => {
+        if (this.isCurrent(client)) {
+          this.update({ status: SseConnectionStatus.OPEN, nextRetryAt: null });
+          this.options.onOpen?.();
+        }
+      },
+      onClose: () => {
+        if (this.isCurrent(client)) {
+          this.update({ status: SseConnectionStatus.CLOSED, nextRetryAt: null });
+          this.options.onClose?.();
+        }
+      },
+      onError: (error) => {
+        if (this.isCurrent(client)) {
+          this.update({ status: SseConnectionStatus.ERROR });
+          this.options.onError?.(error);
+        }
+      },
+      onOffline: () => {
+        if (this.isCurrent(client)) {
+          this.update({ status: SseConnectionStatus.OFFLINE, nextRetryAt: null });
+          this.options.onOffline?.();
+        }
+      },
+      onOnline: () => {
+        if (this.isCurrent(client)) {
+          this.update({ status: SseConnectionStatus.CONNECTING });
+          this.options.onOnline?.();
+        }
+      },
+      onSuspend: () => {
+        if (this.isCurrent(client)) {
+          this.update({ status: SseConnectionStatus.SUSPENDED, nextRetryAt: null });
+          this.options.onSuspend?.();
+        }
+      },
+      onResume: () => {
+        if (this.isCurrent(client)) {
+          this.update({ status: SseConnectionStatus.CONNECTING });
+          this.options.onResume?.();
+        }
+      },
+      onStale: (silentFor) => {
+        if (this.isCurrent(client)) {
+          this.update({ status: SseConnectionStatus.STALE });
+          this.options.onStale?.(silentFor);
+        }
+      },
+      onRetryScheduled: (info) => {
+        if (this.isCurrent(client)) {
+          this.update({ nextRetryAt: info.nextRetryAt });
+          this.options.onRetryScheduled?.(info);
+        }
+      },
+      onGap: (from, to) => {
+        if (this.isCurrent(client)) {
+          this.options.onGap?.(from, to);
+        }
+      },
+      onSequenceRegression: (sequence, lastSequence) => {
+        if (this.isCurrent(client)) {
+          this.options.onSequenceRegression?.(sequence, lastSequence);
+        }
+      },
+      onMessage: (event) => {
+        if (this.isCurrent(client)) {
+          this.addEvent(event);
+          this.options.onMessage?.(event);
+        }
+      },
+      onEvent: this.options.onEvent && Object.fromEntries(
+        Object.keys(this.options.onEvent).map(eventType => [eventType, (data: unknown) => {
+          if (this.isCurrent(client)) {
+            this.options.onEvent?.[eventType]?.(data);
+          }
+        }])
+      ),
+    });
+
+    client.subscribe((event) => {
+      if (this.isCurrent(client)) {
+        this.eventListeners.forEach(listener => listener(event));
+      }
+    });
+
+    return client;
+  }
+
+  /**
+   * Closes the client and replaces it with one created from the current options
+   */
+  private replaceClient(): void {
+    const previous = this.client;
+    this.client = this.createClient();
+    previous.close();
+
+    this.update({ client: this.client, status: SseConnectionStatus.CLOSED, nextRetryAt: null });
+
+    if (this.listeners.size > 0 && this.shouldConnect) {
+      this.client.connect();
+    }
+  }
+
+  /**
+   * Whether a client is the one currently owned by the store
+   */
+  private isCurrent(client: SseClient): boolean {
+    return client === this.client;
+  }
+
+  /**
+   * Adds a received event, dropping the oldest ones beyond maxEvents
+   */
+  private addEvent(event: SseEvent): void {
+    const maxEvents = this.options.maxEvents ?? 100;
+    let events = [...this.snapshot.events, event];
+
+    if ((this.options.autoClearOldEvents ?? true) && events.length > maxEvents) {
+      events = events.slice(-maxEvents);
+    }
+
+    this.update({ events, lastEvent: event });
+  }
+
+  /**
+   * Creates a new snapshot and notifies the listeners
+   */
+  private update(changes: Partial<SseStoreSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/** Options only read by the store, never passed to the client */
+const STORE_OPTIONS = new Set(['autoConnect', 'maxEvents', 'autoClearOldEvents']);
+
+/**
+ * Whether a change of options can only take effect with a new client
+ * Callbacks are skipped since they are called from the latest options, and onEvent only
+ * counts by its event types. Plain objects and arrays are compared by value, and functions and
+ * class instances only by kind, so options written inline (e.g. heartbeat: { interval: 30000 }
+ * or backoff: attempt => attempt * 100) don't replace the client on every render.
+ */
+function requiresNewClient(previous: SseStoreOptions, next: SseStoreOptions): boolean {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  for (const key of keys) {
+    if (STORE_OPTIONS.has(key)) {
+      continue;
+    }
+
+    if (key === 'onEvent') {
+      if (!isEquivalent(Object.keys(previous.onEvent ?? {}), Object.keys(next.onEvent ?? {}))) {
+        return true;
+      }
+      continue;
+    }
+
+    if (/^on[A-Z]/.test(key)) {
+      continue;
+    }
+
+    const previousValue: unknown = previous[key as keyof SseStoreOptions];
+    const nextValue: unknown = next[key as keyof SseStoreOptions];
+    if (!isEquivalent(previousValue, nextValue)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Compares plain objects and arrays by value, functions and class instances by kind and anything
+ * else by identity
+ */
+function isEquivalent(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  // The client calls the latest functions and keeps the instances it was created with
+  if (typeof a === 'function' && typeof b === 'function') {
+    return true;
+  }
+
+  if (isInstance(a) && isInstance(b)) {
+    return true;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEquivalent(value, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isEquivalent(a[key], b[key]));
+  }
+
+  return false;
+}
+
+/**
+ * Whether a value is an object literal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Whether a value is an instance of a class, such as a checkpoint store or a logger
+ */
+function isInstance(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isPlainObject(value);
+}
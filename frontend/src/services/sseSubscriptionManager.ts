@@ -0,0 +1,112 @@
+import { getEventTypeForFilter } from '../models/sseEventTypes';
+import type { SseClient, SseEvent } from './sseService';
+
+/**
+ * Predicate deciding whether a subscription receives an event
+ */
+export type SseEventPredicate = (event: SseEvent) => boolean;
+
+/**
+ * Handler for events routed to a subscription
+ */
+export type SseSubscriptionHandler = (event: SseEvent) => void;
+
+/**
+ * A registered subscription
+ */
+interface SseSubscription {
+  matches: SseEventPredicate;
+  handler: SseSubscriptionHandler;
+}
+
+/**
+ * Subscription manager
+ * Multiplexes many subscribers over a single SseClient by routing events client-side,
+ * so separate concerns (notifications, alerts, updates...) don't each need a connection.
+ */
+export class SseSubscriptionManager {
+  private client: SseClient;
+  private subscriptions: Set<SseSubscription> = new Set();
+  private detachFromClient: (() => void) | null = null;
+
+  /**
+   * Creates a new subscription manager
+   * @param client SSE client whose events are routed
+   */
+  constructor(client: SseClient) {
+    this.client = client;
+  }
+
+  /**
+   * Subscribes to events of a type, or to events matching a predicate
+   * @param selector Event type (legacy filter names such as 'update' are accepted) or predicate
+   * @param handler Function called with each matching event
+   * @returns Function that removes the subscription
+   */
+  public subscribe(selector: string | SseEventPredicate, handler: SseSubscriptionHandler): () => void {
+    let matches: SseEventPredicate;
+
+    if (typeof selector === 'string') {
+      const eventType = getEventTypeForFilter(selector);
+      this.client.listenFor(eventType);
+      matches = (event) => (event.event || 'message') === eventType;
+    } else {
+      matches = selector;
+    }
+
+    const subscription: SseSubscription = { matches, handler };
+    this.subscriptions.add(subscription);
+
+    if (!this.detachFromClient) {
+      this.detachFromClient = this.client.subscribe(this.dispatch.bind(this));
+    }
+
+    return () => {
+      this.subscriptions.delete(subscription);
+
+      if (this.subscriptions.size === 0) {
+        this.detach();
+      }
+    };
+  }
+
+  /**
+   * Gets the number of active subscriptions
+   */
+  public getSubscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Removes all subscriptions
+   */
+  public dispose(): void {
+    this.subscriptions.clear();
+    this.detach();
+  }
+
+  /**
+   * Stops receiving events from the client
+   */
+  private detach(): void {
+    if (this.detachFromClient) {
+      this.detachFromClient();
+      this.detachFromClient = null;
+    }
+  }
+
+  /**
+   * Routes an event to every matching subscription
+   */
+  private dispatch(event: SseEvent): void {
+    Array.from(this.subscriptions).forEach(subscription => {
+      try {
+        if (subscription.matches(event)) {
+          subscription.handler(event);
+        }
+      } catch (error) {
+        this.client.getLogger().error('Error in SSE subscription handler:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import type { SseEventSource } from '../services/sseService';
+
+/**
+ * Options of a pushed event
+ */
+export interface FakeEventOptions {
+  /** SSE id field */
+  id?: string;
+}
+
+/**
+ * Stand-in for the browser EventSource, driven by the test
+ * Every instance is recorded, so a test can reach the source a client opened (and
+ * the ones it opens when reconnecting) and push opens, events and errors into it.
+ */
+export class FakeEventSource implements SseEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  /** Every instance created since the last reset, oldest first */
+  static instances: FakeEventSource[] = [];
+
+  public readonly url: string;
+  public readonly withCredentials: boolean;
+  public readyState: number = FakeEventSource.CONNECTING;
+  public onopen: ((event: Event) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+
+  private listeners: Map<string, ((event: MessageEvent) => void)[]> = new Map();
+
+  constructor(url: string | URL, init: EventSourceInit = {}) {
+    this.url = String(url);
+    this.withCredentials = init.withCredentials ?? false;
+    FakeEventSource.instances.push(this);
+  }
+
+  /**
+   * Gets the most recently created instance
+   * @throws Error if no instance was created
+   */
+  static latest(): FakeEventSource {
+    const instance = FakeEventSource.instances[FakeEventSource.instances.length - 1];
+    if (!instance) {
+      throw new Error('No FakeEventSource was created');
+    }
+    return instance;
+  }
+
+  /**
+   * Forgets every instance
+   */
+  static reset(): void {
+    FakeEventSource.instances = [];
+  }
+
+  /**
+   * Replaces the global EventSource with FakeEventSource
+   * @returns Function that restores the previous EventSource
+   */
+  static install(): () => void {
+    const previous = globalThis.EventSource;
+    globalThis.EventSource = FakeEventSource as unknown as typeof EventSource;
+    return () => {
+      globalThis.EventSource = previous;
+      FakeEventSource.reset();
+    };
+  }
+
+  /**
+   * Gets the query parameters of the URL the source was opened with
+   */
+  public get searchParams(): URLSearchParams {
+    return new URL(this.url, 'http://localhost').searchParams;
+  }
+
+  /**
+   * Whether the source was closed
+   */
+  public get closed(): boolean {
+    return this.readyState === FakeEventSource.CLOSED;
+  }
+
+  /**
+   * Opens the connection, as when the server accepts the request
+   */
+  public open(): void {
+    this.assertNotClosed('open');
+    this.readyState = FakeEventSource.OPEN;
+    this.onopen?.(new Event('open'));
+  }
+
+  /**
+   * Pushes an event of a type
+   * @param type Event type ('message' for events without an event field)
+   * @param data Event data; objects are sent as JSON
+   * @param options Event options
+   */
+  public emit(type: string, data: unknown, options: FakeEventOptions = {}): void {
+    this.assertNotClosed('emit');
+
+    const event = new MessageEvent(type, {
+      data: typeof data === 'string' ? data : JSON.stringify(data),
+      lastEventId: options.id ?? '',
+    });
+
+    if (type === 'message') {
+      this.onmessage?.(event);
+    }
+    (this.listeners.get(type) || []).slice().forEach(listener => listener(event));
+  }
+
+  /**
+   * Pushes an event without an event field
+   */
+  public message(data: unknown, options: FakeEventOptions = {}): void {
+    this.emit('message', data, options);
+  }
+
+  /**
+   * Fails the connection, as when the network drops or the server ends the stream
+   */
+  public error(): void {
+    this.assertNotClosed('error');
+    this.onerror?.(new Event('error'));
+  }
+
+  /**
+   * Gets the number of listeners registered for an event type
+   */
+  public listenerCount(type: string): number {
+    return this.listeners.get(type)?.length ?? 0;
+  }
+
+  public addEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    const listeners = this.listeners.get(type) || [];
+    listeners.push(listener);
+    this.listeners.set(type, listeners);
+  }
+
+  public removeEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) {
+      return;
+    }
+
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  public close(): void {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  /**
+   * Fails the test when it drives a source the client already closed
+   */
+  private assertNotClosed(action: string): void {
+    if (this.closed) {
+      throw new Error(`Cannot ${action}: FakeEventSource for ${this.url} is closed`);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { configureLogging, resetLogging } from '../services/logger';
+import { FakeEventSource } from './fakeEventSource';
+
+let restoreEventSource: (() => void) | null = null;
+
+beforeEach(() => {
+  configureLogging({ level: 'silent' });
+  restoreEventSource = FakeEventSource.install();
+});
+
+afterEach(() => {
+  // Unmount rendered hooks first so their clients close
+  cleanup();
+  restoreEventSource?.();
+  resetLogging();
+  window.localStorage.clear();
+  vi.useRealTimers();
+});
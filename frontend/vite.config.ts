@@ -1,22 +1,33 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { resolve } from 'path'
+import { mockSseBackend } from './mock/mockSseBackend'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  resolve: {
-    extensions: ['.js', '.ts', '.jsx', '.tsx', '.json'],
-    alias: {
-      '@': resolve(__dirname, 'src')
-    }
-  },
-  server: {
-    proxy: {
-      '/api': {
-        target: 'http://localhost:5121',
-        changeOrigin: true,
+export default defineConfig(({ mode }) => {
+  // `vite --mode mock` serves the API from an in-memory mock instead of proxying to the backend
+  const useMockBackend = mode === 'mock'
+
+  return {
+    plugins: useMockBackend ? [react(), mockSseBackend()] : [react()],
+    resolve: {
+      extensions: ['.js', '.ts', '.jsx', '.tsx', '.json'],
+      alias: {
+        '@': resolve(__dirname, 'src')
+      }
+    },
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['./src/test/setup.ts'],
+    },
+    server: {
+      proxy: useMockBackend ? undefined : {
+        '/api': {
+          target: 'http://localhost:5121',
+          changeOrigin: true,
+        },
       },
     },
-  },
+  }
 })